@@ -0,0 +1,81 @@
+import * as vscode from "vscode";
+import BracketAnalyzer from "./core/bracketAnalyzer";
+import FoundBracket from "./core/foundBracket";
+import Range from "./core/range";
+
+export default class BracketDiagnostics {
+    // Orphans are closing brackets without an open bracket and open brackets which are never closed,
+    // mismatches are closing brackets which close the open bracket of another pair
+    public static create(
+        analyzer: BracketAnalyzer,
+        uri: vscode.Uri,
+        severity: vscode.DiagnosticSeverity): vscode.Diagnostic[] {
+        const diagnostics: vscode.Diagnostic[] = [];
+        const orphans = analyzer.getOrphans();
+        const mismatches = analyzer.getMismatches();
+
+        // Brackets which are not matched with a bracket of their own pair, partners are searched among them
+        const unmatched = orphans.slice();
+        mismatches.forEach((scope) => {
+            unmatched.push(new FoundBracket(scope.open.range, scope.open.character));
+            unmatched.push(new FoundBracket(scope.close.range, scope.close.character));
+        });
+        unmatched.sort((a, b) => a.range.start.compareTo(b.range.start));
+
+        orphans.forEach((orphan) => {
+            const bracketPair = analyzer.settings.bracketPairs.find((e) =>
+                e.openCharacter === orphan.character || e.closeCharacter === orphan.character);
+            if (bracketPair === undefined) {
+                return;
+            }
+
+            const isOpen = bracketPair.openCharacter === orphan.character;
+            const message = isOpen ?
+                `'${orphan.character}' is never closed` :
+                `'${orphan.character}' has no open bracket`;
+            const diagnostic = this.createDiagnostic(orphan.range, message, severity);
+
+            // The nearest unmatched bracket of the same pair, in the direction the partner should be
+            // A close bracket can be shared by several pairs, e.g. "end" of "def" and "do"
+            const partnerCharacters = isOpen ? [bracketPair.closeCharacter] : analyzer.settings.bracketPairs
+                .filter((e) => e.closeCharacter === orphan.character)
+                .map((e) => e.openCharacter);
+            const candidates = unmatched.filter((e) => partnerCharacters.indexOf(e.character) !== -1 && (isOpen ?
+                e.range.start.isAfter(orphan.range.start) : e.range.start.isBefore(orphan.range.start)));
+            const partner = isOpen ? candidates[0] : candidates[candidates.length - 1];
+            if (partner !== undefined) {
+                diagnostic.relatedInformation = [
+                    this.createRelatedInformation(uri, partner.range, `Probable partner '${partner.character}'`),
+                ];
+            }
+
+            diagnostics.push(diagnostic);
+        });
+
+        mismatches.forEach((scope) => {
+            const message = `'${scope.close.character}' does not match '${scope.open.character}'`;
+            const diagnostic = this.createDiagnostic(scope.close.range, message, severity);
+            diagnostic.relatedInformation = [
+                this.createRelatedInformation(uri, scope.open.range, `'${scope.open.character}' is opened here`),
+            ];
+
+            diagnostics.push(diagnostic);
+        });
+
+        return diagnostics.sort((a, b) => a.range.start.compareTo(b.range.start));
+    }
+
+    private static createDiagnostic(range: Range, message: string, severity: vscode.DiagnosticSeverity) {
+        const diagnostic = new vscode.Diagnostic(this.toRange(range), message, severity);
+        diagnostic.source = "Bracket Pair Colorizer";
+        return diagnostic;
+    }
+
+    private static createRelatedInformation(uri: vscode.Uri, range: Range, message: string) {
+        return new vscode.DiagnosticRelatedInformation(new vscode.Location(uri, this.toRange(range)), message);
+    }
+
+    private static toRange(range: Range): vscode.Range {
+        return new vscode.Range(range.start.line, range.start.character, range.end.line, range.end.character);
+    }
+}
@@ -0,0 +1,136 @@
+import * as fs from "fs";
+import * as path from "path";
+import AnalyzerSettings from "../core/analyzerSettings";
+import BracketAnalyzer from "../core/bracketAnalyzer";
+import IConfiguration from "../core/IConfiguration";
+import OverrideConfiguration from "../core/overrideConfiguration";
+import PrismLanguages from "../core/prismLanguages";
+import BracketProblem from "./bracketProblem";
+
+export default class BracketChecker {
+    public static readonly unmatchedRuleID = "unmatched-bracket";
+    public static readonly mismatchedRuleID = "mismatched-bracket";
+
+    // VSCode language ids of common file extensions, which are mapped to Prism languages like in the extension,
+    // other extensions are used as the language id
+    private static readonly extensionLanguages: { [extension: string]: string } = {
+        bash: "shellscript",
+        bat: "bat",
+        c: "c",
+        cc: "cpp",
+        cpp: "cpp",
+        cs: "csharp",
+        cshtml: "razor",
+        css: "css",
+        h: "c",
+        hpp: "cpp",
+        htm: "html",
+        html: "html",
+        js: "javascript",
+        json: "json",
+        jsonc: "jsonc",
+        jsx: "javascriptreact",
+        less: "less",
+        md: "markdown",
+        mjs: "javascript",
+        php: "php",
+        ps1: "powershell",
+        py: "python",
+        rb: "ruby",
+        rs: "rust",
+        scss: "scss",
+        sh: "shellscript",
+        svg: "xml",
+        ts: "typescript",
+        tsx: "typescriptreact",
+        vb: "vb",
+        vue: "vue",
+        xml: "xml",
+        yaml: "yaml",
+        yml: "yaml",
+        zsh: "shellscript",
+    };
+
+    private readonly configuration: IConfiguration;
+    private readonly languageID: string | undefined;
+    private readonly excludedLanguages: Set<string>;
+    private readonly settings = new Map<string, AnalyzerSettings | undefined>();
+
+    // languageID is used for all files instead of the language of their extension
+    constructor(configuration: IConfiguration, languageID?: string) {
+        this.configuration = configuration;
+        this.languageID = languageID;
+
+        const excludedLanguages = configuration.get("excludedLanguages") as string[];
+
+        if (!Array.isArray(excludedLanguages)) {
+            throw new Error("excludedLanguages is not an array");
+        }
+
+        this.excludedLanguages = new Set(excludedLanguages);
+    }
+
+    // Returns undefined if the language of the file is not supported or excluded
+    public checkFile(file: string): BracketProblem[] | undefined {
+        const languageID = this.languageID !== undefined ? this.languageID : this.getLanguageID(file);
+        const settings = this.getSettings(languageID, file);
+        if (settings === undefined) {
+            return;
+        }
+
+        const text = fs.readFileSync(file, "utf8").replace(/^\uFEFF/, "");
+        const analyzer = new BracketAnalyzer(settings);
+        if (!analyzer.update(text)) {
+            throw new Error("Could not tokenize " + file);
+        }
+
+        const problems: BracketProblem[] = [];
+
+        const openCharacters = new Set(settings.bracketPairs.map((e) => e.openCharacter));
+        analyzer.getOrphans().forEach((orphan) => {
+            const message = openCharacters.has(orphan.character) ?
+                `'${orphan.character}' is never closed` :
+                `'${orphan.character}' has no open bracket`;
+            problems.push(new BracketProblem(file, orphan.range, BracketChecker.unmatchedRuleID, message));
+        });
+
+        analyzer.getMismatches().forEach((scope) => {
+            const open = scope.open.range.start;
+            const message = `'${scope.close.character}' does not match '${scope.open.character}' ` +
+                `at ${open.line + 1}:${open.character + 1}`;
+            problems.push(new BracketProblem(file, scope.close.range, BracketChecker.mismatchedRuleID, message));
+        });
+
+        return problems.sort((a, b) => a.range.start.compareTo(b.range.start));
+    }
+
+    private getLanguageID(file: string): string {
+        const extension = path.extname(file).substring(1).toLowerCase();
+        const languageID = BracketChecker.extensionLanguages[extension];
+        return languageID !== undefined ? languageID : extension;
+    }
+
+    private getSettings(languageID: string, file: string): AnalyzerSettings | undefined {
+        // Files with the same language and overrides share their settings
+        const configuration = new OverrideConfiguration(this.configuration, languageID, file);
+        const key = [languageID, ...configuration.keys].join("\n");
+        if (this.settings.has(key)) {
+            return this.settings.get(key);
+        }
+
+        let settings: AnalyzerSettings | undefined;
+        const languages = PrismLanguages.getPrismLanguageIDs(languageID, configuration);
+        const primaryLanguage = languages[0];
+
+        if (PrismLanguages.isSupported(primaryLanguage) && !this.excludedLanguages.has(languageID)) {
+            const embeddedLanguages = languages.slice(1).filter((e) => PrismLanguages.isSupported(e));
+            settings = new AnalyzerSettings(primaryLanguage, configuration, embeddedLanguages);
+
+            PrismLanguages.loadLanguageOnce(primaryLanguage);
+            embeddedLanguages.forEach((e) => PrismLanguages.loadLanguageOnce(e));
+        }
+
+        this.settings.set(key, settings);
+        return settings;
+    }
+}
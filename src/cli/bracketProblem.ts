@@ -0,0 +1,15 @@
+import Range from "../core/range";
+
+export default class BracketProblem {
+    public readonly file: string;
+    public readonly range: Range;
+    public readonly ruleID: string;
+    public readonly message: string;
+
+    constructor(file: string, range: Range, ruleID: string, message: string) {
+        this.file = file;
+        this.range = range;
+        this.ruleID = ruleID;
+        this.message = message;
+    }
+}
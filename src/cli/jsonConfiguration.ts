@@ -0,0 +1,48 @@
+import * as fs from "fs";
+import IConfiguration from "../core/IConfiguration";
+import ISettingObject from "../core/ISettingObject";
+import SettingValue from "../core/settingValue";
+import SettingValues from "../core/settingValues";
+
+// Settings from a settings.json file, settings which are not in the file use the defaults of the extension
+export default class JsonConfiguration implements IConfiguration {
+    private readonly values = new Map<string, SettingValue>();
+
+    constructor(path?: string) {
+        const packageJson = require("../../../package.json");
+        const properties = packageJson.contributes.configuration.properties;
+        Object.keys(properties).forEach((key) => {
+            this.values.set(key, properties[key].default);
+        });
+
+        if (path !== undefined) {
+            const settings = this.parse(fs.readFileSync(path, "utf8"));
+            // Objects are merged into the default, like VS Code does
+            Object.keys(settings).forEach((key) => {
+                const value = settings[key];
+                const defaultValue = this.values.get(key);
+                this.values.set(key, SettingValues.isObject(value) && SettingValues.isObject(defaultValue) ?
+                    Object.assign({}, defaultValue, value) : value);
+            });
+        }
+    }
+
+    public get<T>(section: string): T | undefined {
+        return this.values.get("bracketPairColorizer." + section) as T | undefined;
+    }
+
+    // settings.json allows comments and trailing commas
+    private parse(text: string): ISettingObject {
+        const keepStrings = (match: string, quoted?: string) => quoted !== undefined ? quoted : "";
+        const json = text
+            .replace(/("(?:\\.|[^"\\])*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g, keepStrings)
+            .replace(/("(?:\\.|[^"\\])*")|,(?=\s*[}\]])/g, keepStrings);
+
+        const settings: SettingValue = JSON.parse(json);
+        if (!SettingValues.isObject(settings)) {
+            throw new Error("settings are not an object");
+        }
+
+        return settings;
+    }
+}
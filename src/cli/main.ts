@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+import * as fs from "fs";
+import * as glob from "glob";
+import * as path from "path";
+import BracketChecker from "./bracketChecker";
+import BracketProblem from "./bracketProblem";
+import JsonConfiguration from "./jsonConfiguration";
+import ProblemFormatter from "./problemFormatter";
+
+const usage = `Usage: bracket-pair-check [options] <file or glob>...
+
+Reports brackets without a matching bracket, exits with 1 if any are found
+
+Options:
+  --format <text|json|sarif>  Output format, default text
+  --config <file>             settings.json with bracketPairColorizer.* settings,
+                              default .vscode/settings.json if it exists
+  --language <id>             VSCode language id of all files, default based on the file extension
+  --help                      Show this message
+`;
+
+function main(args: string[]): number {
+    let format = "text";
+    let configPath: string | undefined;
+    let languageID: string | undefined;
+    const patterns: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === "--help" || arg === "-h") {
+            process.stdout.write(usage);
+            return 0;
+        }
+        else if (arg === "--format" || arg === "--config" || arg === "--language") {
+            const value = args[++i];
+            if (value === undefined) {
+                return fail(arg + " requires a value", true);
+            }
+
+            if (arg === "--format") {
+                format = value;
+            }
+            else if (arg === "--config") {
+                configPath = value;
+            }
+            else {
+                languageID = value;
+            }
+        }
+        else if (arg.startsWith("--")) {
+            return fail("Unknown option " + arg, true);
+        }
+        else {
+            patterns.push(arg);
+        }
+    }
+
+    if (ProblemFormatter.formats.indexOf(format) === -1) {
+        return fail("Unknown format " + format + ", expected one of " + ProblemFormatter.formats.join(", "), true);
+    }
+
+    if (patterns.length === 0) {
+        return fail("No files given", true);
+    }
+
+    const defaultConfigPath = path.join(".vscode", "settings.json");
+    if (configPath === undefined && fs.existsSync(defaultConfigPath)) {
+        configPath = defaultConfigPath;
+    }
+
+    let checker: BracketChecker;
+    try {
+        checker = new BracketChecker(new JsonConfiguration(configPath), languageID);
+    }
+    catch (error) {
+        return fail("BracketPair Settings: " + (error instanceof Error ? error.message : error));
+    }
+
+    const files = new Set<string>();
+    patterns.forEach((pattern) => {
+        glob.sync(pattern, { nodir: true }).forEach((file) => files.add(path.normalize(file)));
+    });
+
+    if (files.size === 0) {
+        return fail("No files match " + patterns.join(" "));
+    }
+
+    const problems: BracketProblem[] = [];
+    for (const file of files) {
+        try {
+            const fileProblems = checker.checkFile(file);
+            if (fileProblems !== undefined) {
+                problems.push(...fileProblems);
+            }
+        }
+        catch (error) {
+            return fail(file + ": " + (error instanceof Error ? error.message : error));
+        }
+    }
+
+    const output = ProblemFormatter.format(problems, format);
+    if (output !== "") {
+        process.stdout.write(output + "\n");
+    }
+
+    return problems.length > 0 ? 1 : 0;
+}
+
+function fail(message: string, showUsage = false): number {
+    process.stderr.write(message + "\n" + (showUsage ? "\n" + usage : ""));
+    return 2;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,75 @@
+import * as path from "path";
+import BracketChecker from "./bracketChecker";
+import BracketProblem from "./bracketProblem";
+
+export default class ProblemFormatter {
+    public static readonly formats = ["text", "json", "sarif"];
+
+    // Lines and columns are one based in all formats
+    public static format(problems: BracketProblem[], format: string): string {
+        switch (format) {
+            case "json": return this.formatJson(problems);
+            case "sarif": return this.formatSarif(problems);
+            default: return this.formatText(problems);
+        }
+    }
+
+    private static formatText(problems: BracketProblem[]) {
+        return problems.map((problem) => {
+            const start = problem.range.start;
+            return `${problem.file}:${start.line + 1}:${start.character + 1}: ${problem.message} (${problem.ruleID})`;
+        }).join("\n");
+    }
+
+    private static formatJson(problems: BracketProblem[]) {
+        return JSON.stringify(problems.map((problem) => ({
+            column: problem.range.start.character + 1,
+            endColumn: problem.range.end.character + 1,
+            endLine: problem.range.end.line + 1,
+            file: problem.file,
+            line: problem.range.start.line + 1,
+            message: problem.message,
+            rule: problem.ruleID,
+        })), undefined, 4);
+    }
+
+    // https://docs.oasis-open.org/sarif/sarif/v2.1.0/sarif-v2.1.0.html
+    private static formatSarif(problems: BracketProblem[]) {
+        const rules = [
+            { id: BracketChecker.unmatchedRuleID, shortDescription: { text: "Bracket without a matching bracket" } },
+            { id: BracketChecker.mismatchedRuleID, shortDescription: { text: "Bracket closed by another pair" } },
+        ];
+
+        const results = problems.map((problem) => ({
+            level: "error",
+            locations: [{
+                physicalLocation: {
+                    artifactLocation: { uri: problem.file.split(path.sep).join("/") },
+                    region: {
+                        endColumn: problem.range.end.character + 1,
+                        endLine: problem.range.end.line + 1,
+                        startColumn: problem.range.start.character + 1,
+                        startLine: problem.range.start.line + 1,
+                    },
+                },
+            }],
+            message: { text: problem.message },
+            ruleId: problem.ruleID,
+        }));
+
+        return JSON.stringify({
+            $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+            runs: [{
+                results,
+                tool: {
+                    driver: {
+                        informationUri: "https://github.com/CoenraadS/BracketPair",
+                        name: "bracket-pair-colorizer",
+                        rules,
+                    },
+                },
+            }],
+            version: "2.1.0",
+        }, undefined, 4);
+    }
+}
@@ -0,0 +1,13 @@
+import IThemedColor from "./IThemedColor";
+
+// Style of brackets of a palette level, {color} in the other properties is replaced by its color
+interface IBracketStyle {
+    color: IThemedColor;
+    backgroundColor?: string;
+    border?: string;
+    fontStyle?: string;
+    fontWeight?: string;
+    outline?: string;
+}
+
+export default IBracketStyle;
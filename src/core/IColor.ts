@@ -0,0 +1,9 @@
+// Channels of a color, red, green and blue from 0 to 255, alpha from 0 to 1
+interface IColor {
+    r: number;
+    g: number;
+    b: number;
+    a: number;
+}
+
+export default IColor;
@@ -1,6 +1,7 @@
-import { Position, Range } from "vscode";
 import Bracket from "./bracket";
 import BracketPair from "./bracketPair";
+import LineTranslation from "./lineTranslation";
+import Range from "./range";
 import Scope from "./scope";;
 
 interface IColorIndex {
@@ -8,9 +9,12 @@ interface IColorIndex {
     setCurrent(bracketPair: BracketPair, range: Range, colorIndex: number): void;
     getCurrentLength(bracketPair: BracketPair): number;
     getCurrentColorIndex(bracketPair: BracketPair, range: Range): number | undefined;
-    getScope(position: Position): Scope | undefined;
-    getOpenBrackets(): Set<string>;
+    getScopes(): Scope[];
+    getLastOpenBracket(bracketPair: BracketPair): Bracket | undefined;
+    getUnclosedBrackets(): Bracket[];
     clone(): IColorIndex;
+    isEquivalent(other: IColorIndex, translation: LineTranslation): boolean;
+    translate(translation: LineTranslation): IColorIndex;
 }
 
 export default IColorIndex;
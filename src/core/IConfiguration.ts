@@ -0,0 +1,6 @@
+// The settings of the extension, e.g. a vscode WorkspaceConfiguration
+interface IConfiguration {
+    get<T>(section: string): T | undefined;
+}
+
+export default IConfiguration;
@@ -0,0 +1,7 @@
+import SettingValue from "./settingValue";
+
+// An array of the settings, e.g. the colors of a language, which is an interface so SettingValue can contain itself
+// tslint:disable-next-line:no-empty-interface
+interface ISettingArray extends Array<SettingValue> { }
+
+export default ISettingArray;
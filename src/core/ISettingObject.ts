@@ -0,0 +1,8 @@
+import SettingValue from "./settingValue";
+
+// An object of the settings, e.g. the languageOverrides of a language
+interface ISettingObject {
+    [key: string]: SettingValue;
+}
+
+export default ISettingObject;
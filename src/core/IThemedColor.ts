@@ -0,0 +1,7 @@
+// A color of light themes and a color of dark themes, the same color for both unless the settings give one per kind
+interface IThemedColor {
+    light: string;
+    dark: string;
+}
+
+export default IThemedColor;
@@ -0,0 +1,19 @@
+import Checkpoint from "./checkpoint";
+import ITokenizerState from "./ITokenizerState";
+import LanguageRegion from "./languageRegion";
+import Position from "./position";
+import TokenSpan from "./tokenSpan";
+
+// A tokenizer backend, which finds the spans of a text in which brackets are matched
+interface ITokenizer {
+    // Tokenize a text which starts at start, at a checkpoint in its state or at the start of a region
+    // Returns undefined if the text could not be tokenized
+    tokenize(text: string, languageID: string, start: Position, state?: ITokenizerState):
+        { spans: TokenSpan[], checkpoints: Checkpoint[] } | undefined;
+    // Tokenizing from checkpoints in the same state gives the same tokens
+    isSameState(state?: ITokenizerState, other?: ITokenizerState): boolean;
+    // Regions of the languages in a text, which are tokenized separately
+    getRegions(text: string, languageID: string): LanguageRegion[];
+}
+
+export default ITokenizer;
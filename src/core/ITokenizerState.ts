@@ -0,0 +1,6 @@
+// The state of a tokenizer at the start of a line, e.g. the rule stack of a TextMate grammar
+interface ITokenizerState {
+    equals(other: ITokenizerState): boolean;
+}
+
+export default ITokenizerState;
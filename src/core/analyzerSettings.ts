@@ -0,0 +1,531 @@
+import BracketPair from "./bracketPair";
+import ColorMode from "./colorMode";
+import Colors from "./colors";
+import IBracketStyle from "./IBracketStyle";
+import IColor from "./IColor";
+import IConfiguration from "./IConfiguration";
+import ISettingObject from "./ISettingObject";
+import IThemedColor from "./IThemedColor";
+import ModifierPair from "./modifierPair";
+import PrismLanguages from "./prismLanguages";
+import SettingValue from "./settingValue";
+import SettingValues from "./settingValues";
+import TokenType from "./tokenType";
+
+export default class AnalyzerSettings {
+    // Properties of a style besides its color, in the order they are stored in the key of a style
+    public static readonly styleProperties: Array<Exclude<keyof IBracketStyle, "color">> =
+        ["backgroundColor", "border", "fontStyle", "fontWeight", "outline"];
+
+    public readonly bracketPairs: BracketPair[] = [];
+    public readonly colorMode: ColorMode;
+    public readonly contextualParsing: boolean;
+    public readonly forceIterationColorCycle: boolean;
+    public readonly forceUniqueOpeningColor: boolean;
+    // Language of markdown code blocks without a language in their info string, "" to leave them alone
+    public readonly markdownCodeLanguage: string;
+    public readonly modifierPairs: ModifierPair[] = [];
+    // Language of the tokenizer, e.g. a Prism language
+    public readonly languageID: string;
+    public readonly embeddedLanguageIDs: string[];
+    // Keyword brackets, e.g. begin/end, are matched on word boundaries in keyword tokens
+    public readonly regexExact: RegExp;
+    public readonly keywords: string[];
+    public readonly hasKeywordPairs: boolean;
+    public readonly regexNonExact: RegExp;
+    // Orphans inside scanned tokens are reported, they are colored either way
+    public readonly scannedTokenOrphans: boolean;
+    // Colors with too little contrast against the editor background
+    public readonly warnings: string[] = [];
+    private readonly minimumContrastRatio: number;
+    // Background of light and dark themes, a color can't be checked against the theme in use
+    private readonly editorBackground: IThemedColor;
+    // Token types of a Prism language, "*" for all languages
+    private readonly tokenTypes: { [languageID: string]: TokenType[] } = {};
+    // Comments, strings and regular expressions which are scanned for brackets, "*" for all languages
+    private readonly scannedTokens: { [languageID: string]: string[] } = {};
+    // Styles of palette levels by the key which is used as their color
+    private readonly styles = new Map<string, IBracketStyle>();
+    // Pairs which open or close with a bracket, in the order of the settings
+    private readonly bracketPairsByBracket = new Map<string, BracketPair[]>();
+    // Contextual pairs by the language of the tokens they are matched in
+    private readonly modifierPairsByLanguage = new Map<string, ModifierPair[]>();
+    // Maps the VSCode language ids of the TextMate tokenizer to the Prism languages of contextual pairs
+    private readonly configuration: IConfiguration;
+
+    constructor(languageID: string, configuration: IConfiguration, embeddedLanguageIDs: string[] = []) {
+        this.languageID = languageID;
+        this.embeddedLanguageIDs = embeddedLanguageIDs;
+        this.configuration = configuration;
+
+        this.forceUniqueOpeningColor = configuration.get("forceUniqueOpeningColor") as boolean;
+
+        if (typeof this.forceUniqueOpeningColor !== "boolean") {
+            throw new Error("forceUniqueOpeningColor is not a boolean");
+        }
+
+        this.forceIterationColorCycle = configuration.get("forceIterationColorCycle") as boolean;
+
+        if (typeof this.forceIterationColorCycle !== "boolean") {
+            throw new Error("forceIterationColorCycle is not a boolean");
+        }
+
+        this.contextualParsing = configuration.get("contextualParsing") as boolean;
+
+        if (typeof this.contextualParsing !== "boolean") {
+            throw new Error("contextualParsing is not a boolean");
+        }
+
+        this.markdownCodeLanguage = configuration.get("markdownCodeLanguage") as string;
+
+        if (typeof this.markdownCodeLanguage !== "string") {
+            throw new Error("markdownCodeLanguage is not a string");
+        }
+
+        const contextualPairs = configuration.get<SettingValue>("contextualPairs");
+
+        if (!SettingValues.isArray(contextualPairs)) {
+            throw new Error("contextualPairs is not an array");
+        }
+
+        contextualPairs.forEach((contextualPair, index) => {
+            const modifierPair = this.createModifierPair(contextualPair, "contextualPairs[" + index + "]");
+            if (this.contextualParsing) {
+                this.modifierPairs.push(modifierPair);
+            }
+        });
+
+        const prismTokenTypes = configuration.get<SettingValue>("prismTokenTypes");
+
+        if (!SettingValues.isObject(prismTokenTypes)) {
+            throw new Error("prismTokenTypes is not an object");
+        }
+
+        Object.keys(prismTokenTypes).forEach((prismLanguageID) => {
+            const tokenTypes = prismTokenTypes[prismLanguageID];
+            const name = "prismTokenTypes[\"" + prismLanguageID + "\"]";
+
+            if (!SettingValues.isArray(tokenTypes)) {
+                throw new Error(name + " is not an array");
+            }
+
+            this.tokenTypes[prismLanguageID] = tokenTypes.map((tokenType, index) =>
+                this.createTokenType(tokenType, name + "[" + index + "]"));
+        });
+
+        const scannedTokens = configuration.get<SettingValue>("scannedTokens");
+
+        if (!SettingValues.isObject(scannedTokens)) {
+            throw new Error("scannedTokens is not an object");
+        }
+
+        Object.keys(scannedTokens).forEach((scannedLanguageID) => {
+            const tokens = scannedTokens[scannedLanguageID];
+            if (!SettingValues.isStringArray(tokens) ||
+                tokens.some((e) => ["comment", "string", "regex"].indexOf(e) === -1)) {
+                throw new Error("scannedTokens[\"" + scannedLanguageID + "\"] is not an array of " +
+                    "\"comment\", \"string\" or \"regex\"");
+            }
+
+            this.scannedTokens[scannedLanguageID] = tokens;
+        });
+
+        this.scannedTokenOrphans = configuration.get("scannedTokenOrphans") as boolean;
+
+        if (typeof this.scannedTokenOrphans !== "boolean") {
+            throw new Error("scannedTokenOrphans is not a boolean");
+        }
+
+        this.minimumContrastRatio = configuration.get("minimumContrastRatio") as number;
+
+        if (typeof this.minimumContrastRatio !== "number") {
+            throw new Error("minimumContrastRatio is not a number");
+        }
+
+        const editorBackground = configuration.get<SettingValue>("editorBackground");
+        const lightBackground = SettingValues.isObject(editorBackground) ? editorBackground.light : editorBackground;
+        const darkBackground = SettingValues.isObject(editorBackground) ? editorBackground.dark : editorBackground;
+
+        if (typeof lightBackground !== "string" || typeof darkBackground !== "string") {
+            throw new Error("editorBackground is not a color or an object with a light and a dark color");
+        }
+
+        [lightBackground, darkBackground].forEach((background) => {
+            if (Colors.parse(background) === undefined) {
+                throw new Error("editorBackground " + Colors.describeInvalid(background));
+            }
+        });
+
+        this.editorBackground = { light: lightBackground, dark: darkBackground };
+
+        this.colorMode = ColorMode[configuration.get("colorMode") as keyof typeof ColorMode];
+
+        if (typeof this.colorMode !== "number") {
+            throw new Error("colorMode enum could not be parsed");
+        }
+
+        if (this.colorMode === ColorMode.Consecutive) {
+            const consecutiveSettings = configuration.get<[{}]>("consecutivePairColors");
+
+            if (!Array.isArray(consecutiveSettings)) {
+                throw new Error("consecutivePairColors is not an array");
+            }
+
+            if (consecutiveSettings.length < 3) {
+                throw new Error("consecutivePairColors expected at least 3 parameters, actual: "
+                    + consecutiveSettings.length);
+            }
+
+            const orphanColor = this.createColor(consecutiveSettings[consecutiveSettings.length - 1],
+                "consecutivePairColors[" + (consecutiveSettings.length - 1) + "]");
+
+            const colors = this.createColors(consecutiveSettings[consecutiveSettings.length - 2],
+                "consecutivePairColors[" + (consecutiveSettings.length - 2) + "]");
+
+            consecutiveSettings.slice(0, consecutiveSettings.length - 2).forEach((brackets, index) => {
+                if (typeof brackets === "string" || Array.isArray(brackets)) {
+                    if (brackets.length !== 2) {
+                        throw new Error("consecutivePairColors[" + index + "] requires 2 element, e.g. ['(',')']");
+                    }
+                    this.addBracketPairs(
+                        brackets[0], brackets[1], colors, orphanColor, "consecutivePairColors[" + index + "]");
+                    return;
+                }
+
+                throw new Error("consecutivePairColors[ " + index + "] should be a string or an array of strings");
+            });
+        }
+        else {
+            const independentSettings = configuration.get<[[{}]]>("independentPairColors");
+
+            if (!Array.isArray(independentSettings)) {
+                throw new Error("independentPairColors is not an array");
+            }
+
+            independentSettings.forEach((innerArray, index) => {
+                if (!Array.isArray(innerArray)) {
+                    throw new Error("independentPairColors[" + index + "] is not an array");
+                }
+
+                const brackets = innerArray[0] as string;
+                if (typeof brackets !== "string" && !Array.isArray(brackets)) {
+                    throw new Error("independentSettings[" + index + "][0] is not a string or an array of strings");
+                }
+
+                if (brackets.length < 2) {
+                    throw new Error("independentSettings[" + index + "][0] needs at least 2 elements");
+                }
+
+                const colors = this.createColors(innerArray[1], "independentSettings[" + index + "][1]");
+
+                const orphanColor = this.createColor(innerArray[2], "independentSettings[" + index + "][2]");
+
+                this.addBracketPairs(
+                    brackets[0], brackets[1], colors, orphanColor, "independentPairColors[" + index + "][0]");
+            });
+        }
+
+        const brackets = new Set<string>();
+        this.bracketPairs.forEach((bracketPair) => {
+            brackets.add(bracketPair.openCharacter);
+            brackets.add(bracketPair.closeCharacter);
+        });
+
+        brackets.forEach((bracket) => this.bracketPairsByBracket.set(bracket, this.bracketPairs.filter((e) =>
+            e.openCharacter === bracket || e.closeCharacter === bracket)));
+
+        // Words are keywords, e.g. begin/end
+        const keywords = Array.from(brackets).filter((e) => /^\w+$/.test(e));
+        this.keywords = keywords;
+        this.hasKeywordPairs = keywords.length > 0;
+        this.regexExact = this.createRegex(keywords, true);
+        this.regexNonExact = this.createRegex(Array.from(brackets).filter((e) => keywords.indexOf(e) === -1), false);
+    }
+
+    public getTokenTypes(languageID: string): TokenType[] {
+        return (this.tokenTypes["*"] || []).concat(this.tokenTypes[languageID] || []);
+    }
+
+    // "comment", "string" or "regex", the language is the language of the tokenizer
+    public isScanned(token: string, languageID: string): boolean {
+        return [this.scannedTokens["*"], this.scannedTokens[languageID]]
+            .some((tokens) => tokens !== undefined && tokens.indexOf(token) !== -1);
+    }
+
+    // Rules name Prism languages or VSCode language ids, the Prism language of a VSCode language id matches too,
+    // e.g. "tsx" matches "typescriptreact" of the TextMate tokenizer
+    public getModifierPairs(languageID: string): ModifierPair[] {
+        let modifierPairs = this.modifierPairsByLanguage.get(languageID);
+        if (modifierPairs === undefined) {
+            const prismLanguageID = PrismLanguages.getMappedLanguageIDs(languageID, this.configuration)[0];
+            modifierPairs = this.modifierPairs.filter((e) =>
+                e.languageIDs.indexOf(languageID) !== -1 || e.languageIDs.indexOf(prismLanguageID) !== -1);
+            this.modifierPairsByLanguage.set(languageID, modifierPairs);
+        }
+
+        return modifierPairs;
+    }
+
+    // Pairs which a found bracket can belong to
+    public getBracketPairs(bracket: string): BracketPair[] {
+        return this.bracketPairsByBracket.get(bracket) || [];
+    }
+
+    // The color of a palette level is either a color or the key of a style
+    public getStyle(color: string): IBracketStyle {
+        return this.styles.get(color) || { color: { light: color, dark: color } };
+    }
+
+    // Several open brackets can share a close bracket, e.g. [["def", "class", "do"], "end"]
+    private addBracketPairs(
+        openBrackets: string | string[], closeBracket: string, colors: string[], orphanColor: string, name: string) {
+        const openCharacters = Array.isArray(openBrackets) ? openBrackets : [openBrackets];
+
+        if (openCharacters.length === 0 || openCharacters.some((e) => typeof e !== "string" || e === "") ||
+            typeof closeBracket !== "string" || closeBracket === "") {
+            throw new Error(name + " is not a pair of brackets, e.g. ['(',')'] or [['def','do'],'end']");
+        }
+
+        const key = openCharacters.join(" ");
+        openCharacters.forEach((openCharacter) => {
+            this.bracketPairs.push(new BracketPair(openCharacter, closeBracket, colors, orphanColor, key));
+        });
+    }
+
+    private createColors(colors: SettingValue, name: string): string[] {
+        if (SettingValues.isObject(colors) && colors.generate !== undefined) {
+            colors = this.generateColors(colors, name);
+        }
+        else if (SettingValues.isObject(colors) && colors.palette !== undefined) {
+            const palette = typeof colors.palette === "string" ? Colors.getPalette(colors.palette) : undefined;
+            if (palette === undefined) {
+                throw new Error(name + ".palette is not \"deuteranopia\", \"protanopia\" or \"tritanopia\"");
+            }
+            colors = palette;
+        }
+
+        if (!SettingValues.isArray(colors)) {
+            throw new Error(name + " is not an array of colors, a palette or the number of colors to generate");
+        }
+
+        return colors.map((color, index) => this.createColor(color, name + "[" + index + "]"));
+    }
+
+    // e.g. { "generate": 8, "hueRange": [0, 360], "lightness": { "light": 0.5, "dark": 0.8 } }
+    // Lightness and chroma are those of OKLCH, a lightness per theme kind generates a color per theme kind
+    private generateColors(settings: ISettingObject, name: string): SettingValue[] {
+        const { generate, hueRange = [0, 360], lightness = { light: 0.5, dark: 0.8 }, chroma = 0.15 } = settings;
+
+        if (typeof generate !== "number" || generate % 1 !== 0 || generate < 1) {
+            throw new Error(name + ".generate is not a positive integer");
+        }
+
+        if (!SettingValues.isNumberArray(hueRange) || hueRange.length !== 2) {
+            throw new Error(name + ".hueRange is not an array of a start and an end hue, e.g. [0, 360]");
+        }
+
+        const isLightness = (e: SettingValue): e is number => typeof e === "number" && e >= 0 && e <= 1;
+        const lightLightness = SettingValues.isObject(lightness) ? lightness.light : lightness;
+        const darkLightness = SettingValues.isObject(lightness) ? lightness.dark : lightness;
+        if (!isLightness(lightLightness) || !isLightness(darkLightness)) {
+            throw new Error(name + ".lightness is not a number from 0 to 1 or an object with a light and a dark one");
+        }
+
+        if (typeof chroma !== "number" || chroma < 0) {
+            throw new Error(name + ".chroma is not a positive number");
+        }
+
+        const generateHex = (l: number) =>
+            Colors.generate(generate, [hueRange[0], hueRange[1]], l, chroma).map((e) => Colors.toHex(e));
+        if (typeof lightness === "number") {
+            return generateHex(lightness);
+        }
+
+        const dark = generateHex(darkLightness);
+        return generateHex(lightLightness).map((light, index) => ({ light, dark: dark[index] }));
+    }
+
+    // A color, the id of a theme color, or a color for light and dark themes, e.g. { "light": "Blue", "dark": "Gold" }
+    // which is stored as a style, or a style with one of these as its color
+    private createColor(color: SettingValue, name: string): string {
+        if (SettingValues.isObject(color) && color.color !== undefined) {
+            return this.createStyle(color, name);
+        }
+
+        const themedColor = this.createThemedColor(color, name);
+        return typeof color === "string" ? color : this.addStyle({ color: themedColor });
+    }
+
+    private createThemedColor(color: SettingValue, name: string): IThemedColor {
+        const validate = (value: string, valueName: string) => {
+            if (!Colors.isThemeColorID(value) && Colors.parse(value) === undefined) {
+                throw new Error(valueName + " " + Colors.describeInvalid(value));
+            }
+        };
+
+        if (typeof color === "string") {
+            validate(color, name);
+            this.checkContrast(color, [this.editorBackground.light, this.editorBackground.dark], name);
+            return { light: color, dark: color };
+        }
+
+        if (!SettingValues.isObject(color) || typeof color.light !== "string" || typeof color.dark !== "string") {
+            throw new Error(name + " is not a color, an object with a light and a dark color or a style with a color");
+        }
+
+        validate(color.light, name + ".light");
+        validate(color.dark, name + ".dark");
+        this.checkContrast(color.light, [this.editorBackground.light], name + ".light");
+        this.checkContrast(color.dark, [this.editorBackground.dark], name + ".dark");
+        return { light: color.light, dark: color.dark };
+    }
+
+    // e.g. { "color": "Gold", "fontWeight": "bold", "border": "1px solid {color}" }
+    // The style is stored by a key which is used as its color
+    private createStyle(style: ISettingObject, name: string): string {
+        const properties: string[] = ["color"].concat(AnalyzerSettings.styleProperties);
+        Object.keys(style).forEach((property) => {
+            if (properties.indexOf(property) === -1) {
+                throw new Error(name + "." + property + " is not a style property, expected one of " +
+                    properties.sort().join(", "));
+            }
+        });
+
+        if (SettingValues.isObject(style.color) && style.color.color !== undefined) {
+            throw new Error(name + ".color is not a color or an object with a light and a dark color");
+        }
+
+        const bracketStyle: IBracketStyle = { color: this.createThemedColor(style.color, name + ".color") };
+        AnalyzerSettings.styleProperties.filter((e) => style[e] !== undefined).forEach((property) => {
+            const value = style[property];
+            if (typeof value !== "string") {
+                throw new Error(name + "." + property + " is not a string");
+            }
+            bracketStyle[property] = value;
+        });
+
+        const backgroundColor = (bracketStyle.backgroundColor || "{color}").split(";")[0].trim();
+        if (backgroundColor !== "{color}" && Colors.parse(backgroundColor) === undefined) {
+            throw new Error(name + ".backgroundColor " + Colors.describeInvalid(backgroundColor));
+        }
+
+        if (bracketStyle.fontStyle !== undefined && !/^(normal|italic|oblique)$/.test(bracketStyle.fontStyle)) {
+            throw new Error(name + ".fontStyle is not \"normal\", \"italic\" or \"oblique\"");
+        }
+
+        if (bracketStyle.fontWeight !== undefined &&
+            !/^(normal|bold|bolder|lighter|[1-9]00)$/.test(bracketStyle.fontWeight)) {
+            throw new Error(name + ".fontWeight is not a font weight, e.g. \"bold\"");
+        }
+
+        return this.addStyle(bracketStyle);
+    }
+
+    // Styles with the same properties share a key, whatever the order of the properties in the settings
+    private addStyle(style: IBracketStyle): string {
+        const key = JSON.stringify([style.color.light, style.color.dark,
+            ...AnalyzerSettings.styleProperties.map((property) => style[property])]);
+        this.styles.set(key, style);
+        return key;
+    }
+
+    // Theme colors are not checked, their value depends on the theme
+    private checkContrast(color: string, backgrounds: string[], name: string) {
+        if (Colors.isThemeColorID(color)) {
+            return;
+        }
+
+        backgrounds.filter((e, index) => backgrounds.indexOf(e) === index).forEach((background) => {
+            const ratio = Colors.contrastRatio(Colors.parse(color) as IColor, Colors.parse(background) as IColor);
+            if (ratio < this.minimumContrastRatio) {
+                this.warnings.push(name + " \"" + color + "\" has a contrast ratio of " + ratio.toFixed(1) +
+                    " against the editor background \"" + background + "\", below " + this.minimumContrastRatio);
+            }
+        });
+    }
+
+    // A type, or a type with the indexes of its nested tokens, e.g. { "type": "url", "indexes": [0, -1] }
+    private createTokenType(tokenType: SettingValue, name: string): TokenType {
+        if (typeof tokenType === "string") {
+            return new TokenType(tokenType);
+        }
+
+        if (!SettingValues.isObject(tokenType) || typeof tokenType.type !== "string") {
+            throw new Error(name + " is not a string or an object with a type");
+        }
+
+        const indexes = tokenType.indexes;
+        if (!SettingValues.isNumberArray(indexes) || indexes.some((e) => e % 1 !== 0)) {
+            throw new Error(name + ".indexes is not an array of integers");
+        }
+
+        return new TokenType(tokenType.type, indexes);
+    }
+
+    private createModifierPair(contextualPair: SettingValue, name: string): ModifierPair {
+        if (!SettingValues.isObject(contextualPair)) {
+            throw new Error(name + " is not an object");
+        }
+
+        const { open, close, languages, textBefore, textAfter } = contextualPair;
+
+        if (typeof open !== "string" || open === "") {
+            throw new Error(name + ".open is not a string");
+        }
+
+        if (typeof close !== "string" || close === "") {
+            throw new Error(name + ".close is not a string");
+        }
+
+        if (!SettingValues.isStringArray(languages)) {
+            throw new Error(name + ".languages is not an array of strings");
+        }
+
+        const createCondition = (pattern: SettingValue, key: string) => {
+            if (pattern === undefined) {
+                return /(?:)/;
+            }
+
+            if (typeof pattern !== "string") {
+                throw new Error(name + "." + key + " is not a string");
+            }
+
+            try {
+                return new RegExp(pattern);
+            }
+            catch (error) {
+                throw new Error(name + "." + key + " is not a valid regular expression");
+            }
+        };
+
+        return new ModifierPair(
+            open, close, languages, createCondition(textBefore, "textBefore"), createCondition(textAfter, "textAfter"));
+    }
+
+    // Exact matches are not part of a longer word, e.g. "end" in "backend"
+    private createRegex(brackets: string[], exact: boolean): RegExp {
+        // An empty pattern would match at every position
+        if (brackets.length === 0) {
+            return /(?!)/g;
+        }
+
+        const escape = (s: string) => s.replace(/[-\/\\^$*+?.()|[\]{}]/g, "\\$&");
+        let regex = "";
+
+        const sortedByLengthMatches = brackets.slice().sort((a, b) => b.length - a.length);
+
+        sortedByLengthMatches.forEach((match) => {
+            if (regex !== "") {
+                regex += "|";
+            }
+
+            if (exact) {
+                regex += `\\b${escape(match)}\\b`;
+            }
+            else {
+                regex += `${escape(match)}`;
+            }
+        });
+        return new RegExp(regex, "g");
+    }
+}
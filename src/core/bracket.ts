@@ -1,4 +1,4 @@
-import { Range } from "vscode";
+import Range from "./range";
 
 export default class Bracket {
     public readonly character: string;
@@ -0,0 +1,561 @@
+import AnalyzerSettings from "./analyzerSettings";
+import Checkpoint from "./checkpoint";
+import FoundBracket from "./foundBracket";
+import ITokenizer from "./ITokenizer";
+import ITokenizerState from "./ITokenizerState";
+import LanguageRegion from "./languageRegion";
+import LineTranslation from "./lineTranslation";
+import Position from "./position";
+import PrismTokenizer from "./prismTokenizer";
+import Range from "./range";
+import Scope from "./scope";
+import ScopeTree from "./scopeTree";
+import SpanKind from "./spanKind";
+import TextLine from "./textLine";
+import TokenSpan from "./tokenSpan";
+
+// Finds the brackets, colors and scopes of a text, without depending on the editor
+export default class BracketAnalyzer {
+    public readonly settings: AnalyzerSettings;
+    // Lines near the end of a parse may be tokenized without their full context, so they are parsed again later
+    public readonly lookAheadLineCount = 1000;
+
+    // This program caches lines, and will only analyze lines from the last checkpoint before a modified line
+    // Checkpoints are only kept where a chunk starts, tokens inside a chunk can depend on any text before them,
+    // e.g. the greedy patterns of Prism, so lines are only reused where the chunks of both parses start
+    // Dirty lines are in the line numbers of the cached lines, everything is dirty until the first parse
+    private dirtyStartLine = 0;
+    private dirtyEndLine = Infinity;
+    private dirtyLineDelta = 0;
+    private lines: TextLine[] = [];
+    private checkpoints: Checkpoint[] = [];
+    // Scopes of all cached lines
+    private readonly scopeTree = new ScopeTree();
+    private readonly restartLineMargin = 20;
+    private parsedLineCount = 0;
+    private isParsedToEnd = false;
+    // Text of the current update, and the offsets of its line starts up to the last parsed line
+    private text = "";
+    private lineOffsets: number[] = [];
+    // Lines of isolated regions, the line at the end is the first line after the region
+    private isolatedLines: Array<{ start: number, end: number }> = [];
+
+    private readonly tokenizer: ITokenizer;
+
+    constructor(settings: AnalyzerSettings, tokenizer: ITokenizer = new PrismTokenizer(settings)) {
+        this.settings = settings;
+        this.tokenizer = tokenizer;
+    }
+
+    // Number of parsed lines, in the line numbers of the text after the changes marked dirty since the last update
+    public getParsedLineCount() {
+        return this.parsedLineCount + this.dirtyLineDelta;
+    }
+
+    // startLine and endLine are in the line numbers of the current text, before the change is applied
+    public markDirty(startLine: number, endLine: number, lineDelta: number) {
+        const dirtyEndLine = this.dirtyEndLine + this.dirtyLineDelta;
+
+        // Lines before the dirty lines keep their number, lines after it are moved by the previous changes
+        const start = startLine < this.dirtyStartLine ? startLine :
+            startLine > dirtyEndLine ? startLine - this.dirtyLineDelta : this.dirtyStartLine;
+        const end = endLine > dirtyEndLine ? endLine - this.dirtyLineDelta :
+            endLine < this.dirtyStartLine ? endLine : this.dirtyEndLine;
+
+        this.dirtyStartLine = Math.min(this.dirtyStartLine, start);
+        this.dirtyEndLine = Math.max(this.dirtyEndLine, end);
+        this.dirtyLineDelta += lineDelta;
+    }
+
+    // Parse the first lineCount lines of the text, the text must include all changes marked dirty
+    // Returns false if the text could not be tokenized
+    public update(text: string, lineCount = Infinity): boolean {
+        this.text = text;
+        this.lineOffsets = [0];
+        for (let offset = text.indexOf("\n"); offset !== -1 && this.lineOffsets.length <= lineCount;
+            offset = text.indexOf("\n", offset + 1)) {
+            this.lineOffsets.push(offset + 1);
+        }
+
+        const isParsedToEnd = lineCount >= this.lineOffsets.length;
+        lineCount = Math.min(lineCount, this.lineOffsets.length);
+
+        const parsedLineCount = this.getParsedLineCount();
+        if (lineCount > parsedLineCount) {
+            this.markDirty(Math.max(0, parsedLineCount - this.lookAheadLineCount), parsedLineCount, 0);
+        }
+
+        const parsedText = text.substring(0, this.offsetAt(lineCount));
+        const regions = this.tokenizer.getRegions(parsedText, this.settings.languageID);
+        const oldIsolatedLines = this.isolatedLines;
+        this.isolatedLines = regions.filter((e) => e.isolated).map((region) => {
+            const end = this.positionAt(region.end);
+            return { end: end.character === 0 ? end.line : end.line + 1, start: this.positionAt(region.start).line };
+        });
+        const isIsolated = (isolatedLines: Array<{ start: number, end: number }>, line: number) =>
+            isolatedLines.some((e) => e.start <= line && line < e.end);
+
+        if (this.checkpoints.length === 0) {
+            this.checkpoints.push(new Checkpoint(0, this.settings.languageID));
+        }
+
+        // An edit can create a token which starts a few lines before it, e.g. a multi-line css selector
+        // An edit can add or remove a <script> tag, which changes the language the checkpoint was made in
+        let checkpointIndex = this.getCheckpointIndex(this.dirtyStartLine - this.restartLineMargin);
+        while (checkpointIndex > 0) {
+            const checkpoint = this.checkpoints[checkpointIndex];
+            const offset = this.offsetAt(checkpoint.line);
+            const region = regions.find((e) => e.start <= offset && offset < e.end);
+            if (region !== undefined && region.languageID === checkpoint.languageID) {
+                break;
+            }
+            checkpointIndex--;
+        }
+
+        const restartLine = this.checkpoints[checkpointIndex].line;
+        const restartOffset = this.offsetAt(restartLine);
+
+        // Keep the removed lines, they can be reused once the bracket state is the same as before the change
+        const oldLines = this.lines.splice(restartLine);
+        const oldScopes = new Set<Scope>();
+        oldLines.forEach((line) => line.getScopes().forEach((scope) => oldScopes.add(scope)));
+        const restartState = this.checkpoints[checkpointIndex].state;
+        const oldCheckpoints = this.checkpoints.splice(checkpointIndex + 1);
+        const oldCheckpointsByLine = new Map<number, Checkpoint>();
+        oldCheckpoints.forEach((e) => oldCheckpointsByLine.set(e.line, e));
+        const translation = new LineTranslation(this.dirtyEndLine + 1, this.dirtyLineDelta);
+
+        const hasConverged = (checkpoint: Checkpoint) => {
+            const oldLineIndex = checkpoint.line - this.dirtyLineDelta;
+            const oldCheckpoint = oldCheckpointsByLine.get(oldLineIndex);
+            // The state is compared at the end of the previous line, which must not have been modified
+            // The lines after an isolated region continue the state before it, so it can't be compared inside one
+            if (checkpoint.line - 1 <= this.dirtyEndLine + this.dirtyLineDelta || oldCheckpoint === undefined ||
+                isIsolated(this.isolatedLines, checkpoint.line - 1) || isIsolated(oldIsolatedLines, oldLineIndex - 1) ||
+                oldCheckpoint.languageID !== checkpoint.languageID ||
+                !this.tokenizer.isSameState(oldCheckpoint.state, checkpoint.state)) {
+                return false;
+            }
+
+            const oldPreviousLine = oldLines[oldLineIndex - 1 - restartLine];
+            if (oldPreviousLine === undefined ||
+                !this.getLine(checkpoint.line - 1).isEquivalent(oldPreviousLine, translation)) {
+                return false;
+            }
+
+            oldLines.slice(oldLineIndex - restartLine).forEach((line) => {
+                this.lines.push(line.translate(translation));
+            });
+
+            oldCheckpoints.filter((e) => e.line > oldLineIndex).forEach((e) => {
+                this.checkpoints.push(new Checkpoint(translation.line(e.line), e.languageID, e.state));
+            });
+
+            return true;
+        };
+
+        // Regions are parsed in document order, so nesting depth carries over between languages
+        parsing:
+        for (const region of regions) {
+            let chunkStart = Math.max(region.start, restartOffset);
+            let state = chunkStart === restartOffset ? restartState : undefined;
+
+            while (chunkStart < region.end) {
+                const chunk = this.tokenizeChunk(parsedText, region, chunkStart, state);
+                if (!chunk) {
+                    oldScopes.forEach((scope) => this.scopeTree.remove(scope));
+                    return false;
+                }
+
+                // Lines are created in order, so the lines of scanned tokens are merged after the brackets before them
+                let positionIndex = 0;
+                let isolatedLineIndex = 0;
+                const addLines = (endLine: number) => {
+                    for (; positionIndex < chunk.positions.length; positionIndex++) {
+                        const position = chunk.positions[positionIndex];
+                        if (position.range.start.line >= endLine) {
+                            break;
+                        }
+                        this.getLine(position.range.start.line).addBracket(position);
+                    }
+
+                    for (; isolatedLineIndex < chunk.isolatedLines.length; isolatedLineIndex++) {
+                        const isolatedLine = chunk.isolatedLines[isolatedLineIndex];
+                        if (isolatedLine.index >= endLine) {
+                            break;
+                        }
+                        this.getLine(isolatedLine.index).merge(isolatedLine, this.settings.scannedTokenOrphans);
+                    }
+                };
+
+                chunk.checkpoints.forEach((checkpoint) => addLines(checkpoint.line));
+                addLines(Infinity);
+
+                if (chunk.end === region.end) {
+                    break;
+                }
+
+                // The chunk ends at its last checkpoint, where the next chunk is tokenized from its state alone
+                const lastCheckpoint = chunk.checkpoints[chunk.checkpoints.length - 1];
+                this.checkpoints.push(lastCheckpoint);
+                if (hasConverged(lastCheckpoint)) {
+                    break parsing;
+                }
+
+                chunkStart = chunk.end;
+                state = lastCheckpoint.state;
+            }
+        }
+
+        // Scopes of reused lines which did not move are kept in the tree
+        const newScopes = new Set<Scope>();
+        this.lines.slice(restartLine).forEach((line) => line.getScopes().forEach((scope) => newScopes.add(scope)));
+        oldScopes.forEach((scope) => {
+            if (!newScopes.has(scope)) {
+                this.scopeTree.remove(scope);
+            }
+        });
+        newScopes.forEach((scope) => {
+            if (!oldScopes.has(scope)) {
+                this.scopeTree.add(scope);
+            }
+        });
+
+        this.parsedLineCount = lineCount;
+        this.isParsedToEnd = isParsedToEnd;
+        this.dirtyStartLine = Infinity;
+        this.dirtyEndLine = -Infinity;
+        this.dirtyLineDelta = 0;
+
+        return true;
+    }
+
+    // Ranges of all parsed brackets, grouped by color
+    public getColorRanges(): Map<string, Range[]> {
+        const colorMap = new Map<string, Range[]>();
+
+        // Reduce all the colors/ranges of the lines into a singular map
+        for (const line of this.lines) {
+            for (const [color, ranges] of line.colorRanges) {
+                const existingRanges = colorMap.get(color);
+
+                if (existingRanges !== undefined) {
+                    existingRanges.push(...ranges);
+                }
+                else {
+                    // Slice because we will be adding values to this array in the future,
+                    // but don't want to modify the original array which is stored per line
+                    colorMap.set(color, ranges.slice());
+                }
+            }
+        }
+
+        return colorMap;
+    }
+
+    public getDepthRanges(): Map<number, Range[]> {
+        const depthMap = new Map<number, Range[]>();
+
+        for (const line of this.lines) {
+            for (const [depth, ranges] of line.depthRanges) {
+                const existingRanges = depthMap.get(depth);
+
+                if (existingRanges !== undefined) {
+                    existingRanges.push(...ranges);
+                }
+                else {
+                    depthMap.set(depth, ranges.slice());
+                }
+            }
+        }
+
+        return depthMap;
+    }
+
+    public getScope(position: Position): Scope | undefined {
+        return this.scopeTree.getScope(position);
+    }
+
+    // The scope of the bracket which touches the position, a bracket after the position is preferred
+    public getBracketScope(position: Position): Scope | undefined {
+        for (const candidate of [position.translate(0, 1), position, position.translate(0, -1)]) {
+            const scope = this.getScope(candidate);
+            if (scope !== undefined &&
+                (scope.open.range.contains(position) || scope.close.range.contains(position))) {
+                return scope;
+            }
+        }
+    }
+
+    public getParentScope(scope: Scope): Scope | undefined {
+        return this.scopeTree.getScope(scope.open.range.start);
+    }
+
+    public getNextSiblingScope(scope: Scope): Scope | undefined {
+        const next = this.scopeTree.getScopeAfter(scope.close.range.end);
+        if (next !== undefined && this.getParentScope(next) === this.getParentScope(scope)) {
+            return next;
+        }
+    }
+
+    public getPreviousSiblingScope(scope: Scope): Scope | undefined {
+        const parent = this.getParentScope(scope);
+
+        // The scope which starts last before this scope is the previous sibling, one of its descendants, or the parent
+        let previous = this.scopeTree.getScopeBefore(scope.range.start);
+        while (previous !== undefined && previous !== parent) {
+            const previousParent = this.getParentScope(previous);
+            if (previousParent === parent) {
+                return previous;
+            }
+            previous = previousParent;
+        }
+    }
+
+    // All scopes, in the order they are closed
+    public getScopes(): Scope[] {
+        const scopes: Scope[] = [];
+        this.lines.forEach((line) => scopes.push(...line.getScopes()));
+        return scopes;
+    }
+
+    // Scopes which are closed by a bracket of another pair, only possible if pairs share their color group
+    public getMismatches(): Scope[] {
+        return this.getScopes().filter((scope) => !this.settings.bracketPairs.some((bracketPair) =>
+            bracketPair.openCharacter === scope.open.character &&
+            bracketPair.closeCharacter === scope.close.character));
+    }
+
+    // Closing brackets without an open bracket, and open brackets which are never closed
+    // Open brackets are only known to be orphans once the whole text was parsed
+    public getOrphans(): FoundBracket[] {
+        const orphans: FoundBracket[] = [];
+        this.lines.forEach((line) => orphans.push(...line.orphans));
+
+        // Brackets which are open at the end of an isolated region are never closed, e.g. in a markdown code block,
+        // the last line of the document is checked below
+        this.isolatedLines
+            .filter((e) => e.end < this.lines.length && (this.isParsedToEnd || e.end < this.parsedLineCount))
+            .forEach((e) => this.lines[e.end - 1].getUnclosedBrackets().forEach((bracket) => {
+                orphans.push(new FoundBracket(bracket.range, bracket.character));
+            }));
+
+        if (this.isParsedToEnd && this.lines.length > 0) {
+            this.lines[this.lines.length - 1].getUnclosedBrackets().forEach((bracket) => {
+                orphans.push(new FoundBracket(bracket.range, bracket.character));
+            });
+        }
+
+        return orphans.sort((a, b) => a.range.start.compareTo(b.range.start));
+    }
+
+    // Lines are stored in an array, if line is requested outside of array bounds
+    // add emptys lines until array is correctly sized
+    private getLine(index: number): TextLine {
+        if (index < this.lines.length) {
+            return this.lines[index];
+        }
+        else {
+            if (this.lines.length === 0) {
+                this.lines.push(new TextLine(this.getLineText(0), this.settings, 0));
+            }
+
+            for (let i = this.lines.length; i <= index; i++) {
+                // Isolated regions start without open brackets, the line after one continues the line before it
+                const isolatedLines = this.isolatedLines.find((e) => e.start === i || e.end === i);
+                const contextLine = isolatedLines === undefined ? this.lines[i - 1] :
+                    isolatedLines.end === i && isolatedLines.start > 0 ? this.lines[isolatedLines.start - 1] :
+                        undefined;
+                const newLine = contextLine !== undefined ?
+                    new TextLine(this.getLineText(i), this.settings, i, contextLine.copyMultilineContext()) :
+                    new TextLine(this.getLineText(i), this.settings, i);
+
+                this.lines.push(newLine);
+            }
+
+            const lineToReturn = this.lines[this.lines.length - 1];
+            return lineToReturn;
+        }
+    }
+
+    private getLineText(index: number) {
+        return this.text.substring(this.offsetAt(index), this.offsetAt(index + 1)).replace(/\r?\n$/, "");
+    }
+
+    // Offset of the start of a line, lines after the parsed lines start at the end of the text
+    private offsetAt(line: number) {
+        return line < this.lineOffsets.length ? this.lineOffsets[line] : this.text.length;
+    }
+
+    private positionAt(offset: number) {
+        // Binary search for the last line which starts on or before the offset
+        let low = 0;
+        let high = this.lineOffsets.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (this.lineOffsets[middle] <= offset) {
+                low = middle;
+            }
+            else {
+                high = middle - 1;
+            }
+        }
+
+        return new Position(low, offset - this.lineOffsets[low]);
+    }
+
+    private getCheckpointIndex(line: number) {
+        // Binary search for the last checkpoint on or before the line
+        let low = 0;
+        let high = this.checkpoints.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if (this.checkpoints[middle].line <= line) {
+                low = middle;
+            }
+            else {
+                high = middle - 1;
+            }
+        }
+
+        return low;
+    }
+
+    // Tokenize a part of a region, starting from a checkpoint in its state or the start of the region
+    // Tokens which continue past the end of the text are tokenized wrong, so the chunk is cut at the last checkpoint
+    // at least lookAheadLineCount lines before its end, unless it reaches the end of the region
+    private tokenizeChunk(text: string, region: LanguageRegion, start: number, state?: ITokenizerState) {
+        const startPosition = this.positionAt(start);
+
+        for (let lineCount = 2 * this.lookAheadLineCount; ; lineCount *= 2) {
+            const end = Math.min(region.end, this.offsetAt(startPosition.line + lineCount));
+
+            const tokenized = this.tokenizer.tokenize(
+                text.substring(start, end), region.languageID, startPosition, state);
+            if (!tokenized) {
+                return;
+            }
+
+            const positions: FoundBracket[] = [];
+            const isolatedLines: TextLine[] = [];
+            const innerIsolatedLines = new Set<number>();
+            tokenized.spans.forEach((span) => {
+                if (span.kind === SpanKind.Isolated) {
+                    const lines = this.matchIsolatedSpan(span);
+                    isolatedLines.push(...lines);
+                    lines.slice(1).forEach((line) => innerIsolatedLines.add(line.index));
+                }
+                else {
+                    this.matchSpan(span, positions);
+                }
+            });
+
+            // The nesting context of a scanned token is not kept, so parsing can't restart inside one
+            const checkpoints = tokenized.checkpoints.filter((e) => !innerIsolatedLines.has(e.line));
+
+            if (end === region.end) {
+                return { end, positions, isolatedLines, checkpoints };
+            }
+
+            const lastSafeLine = startPosition.line + lineCount - this.lookAheadLineCount;
+            const safeCheckpoints = checkpoints.filter((e) => e.line <= lastSafeLine);
+            if (safeCheckpoints.length > 0) {
+                const lastCheckpoint = safeCheckpoints[safeCheckpoints.length - 1];
+                return {
+                    checkpoints: safeCheckpoints,
+                    end: this.offsetAt(lastCheckpoint.line),
+                    isolatedLines: isolatedLines.filter((e) => e.index < lastCheckpoint.line),
+                    positions: positions.filter((e) => e.range.start.line < lastCheckpoint.line),
+                };
+            }
+        }
+    }
+
+    private matchSpan(span: TokenSpan, positions: FoundBracket[]) {
+        if (span.kind === SpanKind.Contextual) {
+            this.matchModifierPairs(span, positions);
+        }
+        else {
+            const regex = span.kind === SpanKind.Keyword ? this.settings.regexExact : this.settings.regexNonExact;
+            this.matchString(span, positions, regex);
+        }
+    }
+
+    // Brackets of a scanned comment, string or regular expression are matched in a new nesting context, which ends with
+    // the token, escaped brackets are text, e.g. "\(" in a regular expression
+    private matchIsolatedSpan(span: TokenSpan): TextLine[] {
+        const positions: FoundBracket[] = [];
+        this.matchString(span, positions, this.settings.regexNonExact);
+
+        const lines: TextLine[] = [];
+        span.content.split("\n").forEach((content, index) => {
+            const lineIndex = span.start.line + index;
+            const lineText = this.getLineText(lineIndex);
+            const line = index === 0 ? new TextLine(lineText, this.settings, lineIndex) :
+                new TextLine(lineText, this.settings, lineIndex, lines[index - 1].copyMultilineContext());
+
+            positions.filter((e) => e.range.start.line === lineIndex).forEach((position) => {
+                const backslashes = /\\*$/.exec(lineText.substring(0, position.range.start.character));
+                if (backslashes === null || backslashes[0].length % 2 === 0) {
+                    line.addBracket(position);
+                }
+            });
+            lines.push(line);
+        });
+
+        const lastLine = lines[lines.length - 1];
+        lastLine.getUnclosedBrackets().forEach((bracket) => {
+            lastLine.orphans.push(new FoundBracket(bracket.range, bracket.character));
+        });
+
+        return lines;
+    }
+
+    private matchString(span: TokenSpan, positions: FoundBracket[], regex: RegExp) {
+        const lines = span.content.split("\n");
+        lines.forEach((content, index) => {
+            const lineIndex = span.start.line + index;
+            const charIndex = index === 0 ? span.start.character : 0;
+
+            regex.lastIndex = 0;
+            let match: RegExpExecArray | null;
+            // tslint:disable-next-line:no-conditional-assignment
+            while ((match = regex.exec(content)) !== null) {
+                const startPos = new Position(lineIndex, charIndex + match.index);
+                const endPos = startPos.translate(0, match[0].length);
+                positions.push(new FoundBracket(new Range(startPos, endPos), match[0]));
+            }
+        });
+    }
+
+    // Only operators which consist of contextual brackets are matched, e.g. ">>" but not ">="
+    private matchModifierPairs(span: TokenSpan, positions: FoundBracket[]) {
+        const modifierPairs = this.settings.getModifierPairs(span.languageID);
+        const content = span.content;
+        if (modifierPairs.length === 0 || content.indexOf("\n") !== -1) {
+            return;
+        }
+
+        const lineText = this.getLineText(span.start.line);
+        const foundBrackets: FoundBracket[] = [];
+
+        for (let index = 0; index < content.length;) {
+            const lineCharacter = span.start.character + index;
+            const opening = modifierPairs.find((e) =>
+                content.startsWith(e.openingCharacter, index) && e.canOpen(lineText, lineCharacter));
+            const closing = modifierPairs.find((e) => content.startsWith(e.closingCharacter, index));
+
+            const character = opening ? opening.openingCharacter : closing ? closing.closingCharacter : undefined;
+            if (character === undefined) {
+                return;
+            }
+
+            const startPos = new Position(span.start.line, lineCharacter);
+            const endPos = startPos.translate(0, character.length);
+            foundBrackets.push(new FoundBracket(new Range(startPos, endPos), character, opening !== undefined));
+            index += character.length;
+        }
+
+        positions.push(...foundBrackets);
+    }
+}
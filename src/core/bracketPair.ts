@@ -4,11 +4,14 @@ export default class BracketPair {
     public readonly closeCharacter: string;
     public readonly colors: string[];
     public readonly orphanColor: string;
+    // Pairs with the same key share their open brackets in independent mode, e.g. "def" and "do" of "end"
+    public readonly key: string;
 
-    constructor(firstBracket: string, lastBracket: string, colors: string[], orphanColor: string) {
+    constructor(firstBracket: string, lastBracket: string, colors: string[], orphanColor: string, key = firstBracket) {
         this.openCharacter = firstBracket;
         this.closeCharacter = lastBracket;
         this.colors = colors;
         this.orphanColor = orphanColor;
+        this.key = key;
     }
 }
@@ -0,0 +1,15 @@
+import ITokenizerState from "./ITokenizerState";
+
+export default class Checkpoint {
+    public readonly line: number;
+    public readonly languageID: string;
+    // State of the tokenizer at the start of the line, undefined for tokenizers without state
+    public readonly state: ITokenizerState | undefined;
+
+    // A line which starts outside of any multi-line token, so tokenizing can safely restart from it
+    constructor(line: number, languageID: string, state?: ITokenizerState) {
+        this.line = line;
+        this.languageID = languageID;
+        this.state = state;
+    }
+}
@@ -0,0 +1,433 @@
+import IColor from "./IColor";
+
+export default class Colors {
+    // Ids of theme colors, e.g. "bracketPairColorizer.color1"
+    public static isThemeColorID(color: string): boolean {
+        return /^[a-z][\w-]*(\.[\w-]+)+$/i.test(color);
+    }
+
+    // A named color, "transparent", hex with an optional alpha, rgb(), rgba(), hsl() or hsla()
+    // Functions accept comma and space separated arguments, e.g. "rgb(255 0 0 / 50%)"
+    public static parse(color: string): IColor | undefined {
+        color = color.trim();
+
+        if (color.toLowerCase() === "transparent") {
+            return { r: 0, g: 0, b: 0, a: 0 };
+        }
+
+        const match = /^(rgba?|hsla?)\(([^()]*)\)$/i.exec(color);
+        if (match === null) {
+            return this.name2rgb(color) || this.hex2rgb(color) || undefined;
+        }
+
+        const args = match[2].trim().split(/\s*,\s*|\s*\/\s*|\s+/);
+        if (args.length !== 3 && args.length !== 4) {
+            return undefined;
+        }
+
+        const a = args.length === 4 ? this.parseNumber(args[3], 1) : 1;
+        if (match[1].toLowerCase().startsWith("rgb")) {
+            const [r, g, b] = args.slice(0, 3).map((e) => this.parseNumber(e, 255));
+            return this.create(r, g, b, a);
+        }
+
+        const h = this.parseHue(args[0]);
+        const [s, l] = args.slice(1, 3).map((e) => this.parseNumber(e, 1, 100));
+        if (h === undefined || s === undefined || l === undefined || a === undefined) {
+            return undefined;
+        }
+
+        return this.hsl2rgb(h, s, l, a);
+    }
+
+    // The reason a color which parse rejects is invalid, for the errors of settings, e.g. a hex color without its #
+    public static describeInvalid(color: string): string {
+        if (/^([a-f\d]{3,4}|[a-f\d]{6}|[a-f\d]{8})$/i.test(color.trim())) {
+            return "is a hex color without a #: \"" + color + "\", use \"#" + color.trim() + "\"";
+        }
+
+        return "is not a valid color: \"" + color + "\"";
+    }
+
+    // "#rrggbb", or "#rrggbbaa" if the color is transparent
+    public static toHex(color: IColor): string {
+        const hex = (e: number) => ("0" + Math.round(e).toString(16)).slice(-2);
+        return "#" + hex(color.r) + hex(color.g) + hex(color.b) + (color.a < 1 ? hex(color.a * 255) : "");
+    }
+
+    // "rgb(r, g, b)", or "rgba(r, g, b, a)" if the color is transparent
+    public static toRGB(color: IColor): string {
+        const rgb = [color.r, color.g, color.b].map((e) => Math.round(e)).join(", ");
+        return color.a < 1 ? `rgba(${rgb}, ${+color.a.toFixed(3)})` : `rgb(${rgb})`;
+    }
+
+    // "hsl(h, s%, l%)", or "hsla(h, s%, l%, a)" if the color is transparent
+    public static toHSL(color: IColor): string {
+        const { h, s, l } = this.rgb2hsl(color);
+        const hsl = `${Math.round(h)}, ${Math.round(s * 100)}%, ${Math.round(l * 100)}%`;
+        return color.a < 1 ? `hsla(${hsl}, ${+color.a.toFixed(3)})` : `hsl(${hsl})`;
+    }
+
+    // Hue in degrees from 0 to 360, saturation and lightness from 0 to 1
+    public static rgb2hsl(color: IColor): { h: number, s: number, l: number, a: number } {
+        const [r, g, b] = [color.r / 255, color.g / 255, color.b / 255];
+        const max = Math.max(r, g, b);
+        const min = Math.min(r, g, b);
+        const l = (max + min) / 2;
+        const d = max - min;
+        if (d === 0) {
+            return { h: 0, s: 0, l, a: color.a };
+        }
+
+        const s = d / (1 - Math.abs(2 * l - 1));
+        const h = max === r ? (g - b) / d + (g < b ? 6 : 0) : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+        return { h: h * 60, s, l, a: color.a };
+    }
+
+    public static hsl2rgb(h: number, s: number, l: number, a = 1): IColor {
+        h = ((h % 360) + 360) % 360;
+        const c = (1 - Math.abs(2 * l - 1)) * s;
+        const x = c * (1 - Math.abs((h / 60) % 2 - 1));
+        const m = l - c / 2;
+        const [r, g, b] =
+            h < 60 ? [c, x, 0] : h < 120 ? [x, c, 0] : h < 180 ? [0, c, x] :
+            h < 240 ? [0, x, c] : h < 300 ? [x, 0, c] : [c, 0, x];
+        return { r: (r + m) * 255, g: (g + m) * 255, b: (b + m) * 255, a };
+    }
+
+    // Composite a color over an opaque background, the result is opaque
+    public static blend(color: IColor, background: IColor): IColor {
+        const channel = (x: number, y: number) => x * color.a + y * (1 - color.a);
+        // tslint:disable-next-line:object-literal-sort-keys
+        return { r: channel(color.r, background.r), g: channel(color.g, background.g),
+            b: channel(color.b, background.b), a: 1 };
+    }
+
+    // Interpolate between two colors, weight 0 is the first color and 1 the second
+    public static mix(color: IColor, other: IColor, weight = 0.5): IColor {
+        const channel = (x: number, y: number) => x + (y - x) * weight;
+        // tslint:disable-next-line:object-literal-sort-keys
+        return { r: channel(color.r, other.r), g: channel(color.g, other.g),
+            b: channel(color.b, other.b), a: channel(color.a, other.a) };
+    }
+
+    // Relative luminance of WCAG 2, from 0 for black to 1 for white
+    public static luminance(color: IColor): number {
+        const [r, g, b] = [color.r, color.g, color.b].map((e) => this.toLinear(e / 255));
+        return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    }
+
+    // Contrast ratio of WCAG 2 from 1 to 21, a transparent color is blended over the background first
+    public static contrastRatio(color: IColor, background: IColor): number {
+        const x = this.luminance(this.blend(color, background));
+        const y = this.luminance(background);
+        return (Math.max(x, y) + 0.05) / (Math.min(x, y) + 0.05);
+    }
+
+    // Lightness from 0 to 1, chroma from 0 to about 0.37 and hue in degrees of the perceptual OKLCH color space
+    public static rgb2oklch(color: IColor): { l: number, c: number, h: number, a: number } {
+        const [r, g, b] = [color.r, color.g, color.b].map((e) => this.toLinear(e / 255));
+        const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+        const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+        const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+        const x = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+        const y = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+        const h = Math.atan2(y, x) * 180 / Math.PI;
+        return {
+            l: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+            // tslint:disable-next-line:object-literal-sort-keys
+            c: Math.sqrt(x * x + y * y),
+            h: h < 0 ? h + 360 : h,
+            a: color.a,
+        };
+    }
+
+    // Colors outside of sRGB keep their lightness and hue, their chroma is reduced until they fit
+    public static oklch2rgb(l: number, c: number, h: number, a = 1): IColor {
+        for (; ; c = Math.max(c - 0.002, 0)) {
+            const rgb = this.oklch2linear(l, c, h);
+            if (c === 0 || rgb.every((e) => e >= -1e-4 && e <= 1 + 1e-4)) {
+                const [r, g, b] = rgb.map((e) => Math.min(Math.max(this.fromLinear(e), 0), 1) * 255);
+                return { r, g, b, a };
+            }
+        }
+    }
+
+    // Colors with evenly spaced hues in OKLCH, so they look equally far apart at the same lightness
+    // A full circle doesn't repeat its first hue at the end, e.g. 4 colors of [0, 360] have hues 0, 90, 180 and 270
+    public static generate(count: number, hueRange: [number, number] = [0, 360], lightness = 0.75, chroma = 0.15) {
+        const [start, end] = hueRange;
+        const steps = Math.abs(end - start) >= 360 ? count : count - 1;
+        const step = steps > 0 ? (end - start) / steps : 0;
+        const colors: IColor[] = [];
+        for (let i = 0; i < count; i++) {
+            colors.push(this.oklch2rgb(lightness, chroma, start + step * i));
+        }
+        return colors;
+    }
+
+    // Built-in palettes for light and dark themes, e.g. "deuteranopia"
+    public static getPalette(name: string): Array<{ light: string, dark: string }> | undefined {
+        return this.palettes[name];
+    }
+
+    public static name2hex(name: string) {
+        name = name.toLowerCase();
+        // Names like "constructor" are members of every object, not colors
+        const hex: string | undefined = Object.prototype.hasOwnProperty.call(this.names, name) ?
+            this.names[name] : undefined;
+        return hex;
+    }
+
+    public static name2rgb(name: string) {
+        const hex = this.name2hex(name);
+
+        if (!hex) {
+            return undefined;
+        }
+
+        return this.hex2rgb(hex);
+    };
+
+    public static hex2rgb(hex: string): IColor | null {
+        // Expand shorthand form (e.g. "#03F" or "#03F8") to full form (e.g. "#0033FF" or "#0033FF88")
+        const shorthandRegex = /^#([a-f\d])([a-f\d])([a-f\d])([a-f\d])?$/i;
+        hex = hex.replace(shorthandRegex, (m, r, g, b, a) => {
+            return "#" + r + r + g + g + b + b + (a !== undefined ? a + a : "");
+        });
+
+        // The # is required, otherwise words like "decade" would be colors
+        const result = /^#([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})?$/i.exec(hex);
+        return result ? {
+            r: parseInt(result[1], 16),
+            // tslint:disable-next-line:object-literal-sort-keys
+            g: parseInt(result[2], 16),
+            b: parseInt(result[3], 16),
+            a: result[4] !== undefined ? parseInt(result[4], 16) / 255 : 1,
+        } : null;
+    }
+
+    // Palettes for color vision deficiencies, their colors also differ in lightness so they don't depend on hue alone
+    // Red-green deficiencies get blue, orange and yellow, based on the palette of Okabe and Ito
+    // Blue-yellow deficiencies get red, teal and purple
+    private static readonly palettes: { [name: string]: Array<{ light: string, dark: string }> } = {
+        deuteranopia: [
+            { light: "#B35C00", dark: "#E69F00" },
+            { light: "#0072B2", dark: "#56B4E9" },
+            { light: "#7A6A00", dark: "#F0E442" },
+        ],
+        protanopia: [
+            { light: "#946C00", dark: "#FFC20A" },
+            { light: "#005BBB", dark: "#5AAEFF" },
+            { light: "#6A4BC4", dark: "#B39DFF" },
+        ],
+        tritanopia: [
+            { light: "#C81E1E", dark: "#FF5C5C" },
+            { light: "#007A7A", dark: "#2FD0D0" },
+            { light: "#7A3D8F", dark: "#FFC7E0" },
+        ],
+    };
+
+    private static readonly names = {
+        aliceblue: "#f0f8ff",
+        antiquewhite: "#faebd7",
+        aqua: "#00ffff",
+        aquamarine: "#7fffd4",
+        azure: "#f0ffff",
+        beige: "#f5f5dc",
+        bisque: "#ffe4c4",
+        black: "#000000",
+        blanchedalmond: "#ffebcd",
+        blue: "#0000ff",
+        blueviolet: "#8a2be2",
+        brown: "#a52a2a",
+        burlywood: "#deb887",
+        cadetblue: "#5f9ea0",
+        chartreuse: "#7fff00",
+        chocolate: "#d2691e",
+        coral: "#ff7f50",
+        cornflowerblue: "#6495ed",
+        cornsilk: "#fff8dc",
+        crimson: "#dc143c",
+        cyan: "#00ffff",
+        darkblue: "#00008b",
+        darkcyan: "#008b8b",
+        darkgoldenrod: "#b8860b",
+        darkgray: "#a9a9a9",
+        darkgreen: "#006400",
+        darkgrey: "#a9a9a9",
+        darkkhaki: "#bdb76b",
+        darkmagenta: "#8b008b",
+        darkolivegreen: "#556b2f",
+        darkorange: "#ff8c00",
+        darkorchid: "#9932cc",
+        darkred: "#8b0000",
+        darksalmon: "#e9967a",
+        darkseagreen: "#8fbc8f",
+        darkslateblue: "#483d8b",
+        darkslategray: "#2f4f4f",
+        darkslategrey: "#2f4f4f",
+        darkturquoise: "#00ced1",
+        darkviolet: "#9400d3",
+        deeppink: "#ff1493",
+        deepskyblue: "#00bfff",
+        dimgray: "#696969",
+        dimgrey: "#696969",
+        dodgerblue: "#1e90ff",
+        firebrick: "#b22222",
+        floralwhite: "#fffaf0",
+        forestgreen: "#228b22",
+        fuchsia: "#ff00ff",
+        gainsboro: "#dcdcdc",
+        ghostwhite: "#f8f8ff",
+        gold: "#ffd700",
+        goldenrod: "#daa520",
+        gray: "#808080",
+        green: "#008000",
+        greenyellow: "#adff2f",
+        grey: "#808080",
+        honeydew: "#f0fff0",
+        hotpink: "#ff69b4",
+        indianred: "#cd5c5c",
+        indigo: "#4b0082",
+        ivory: "#fffff0",
+        khaki: "#f0e68c",
+        lavender: "#e6e6fa",
+        lavenderblush: "#fff0f5",
+        lawngreen: "#7cfc00",
+        lemonchiffon: "#fffacd",
+        lightblue: "#add8e6",
+        lightcoral: "#f08080",
+        lightcyan: "#e0ffff",
+        lightgoldenrodyellow: "#fafad2",
+        lightgray: "#d3d3d3",
+        lightgreen: "#90ee90",
+        lightgrey: "#d3d3d3",
+        lightpink: "#ffb6c1",
+        lightsalmon: "#ffa07a",
+        lightseagreen: "#20b2aa",
+        lightskyblue: "#87cefa",
+        lightslategray: "#778899",
+        lightslategrey: "#778899",
+        lightsteelblue: "#b0c4de",
+        lightyellow: "#ffffe0",
+        lime: "#00ff00",
+        limegreen: "#32cd32",
+        linen: "#faf0e6",
+        magenta: "#ff00ff",
+        maroon: "#800000",
+        mediumaquamarine: "#66cdaa",
+        mediumblue: "#0000cd",
+        mediumorchid: "#ba55d3",
+        mediumpurple: "#9370d8",
+        mediumseagreen: "#3cb371",
+        mediumslateblue: "#7b68ee",
+        mediumspringgreen: "#00fa9a",
+        mediumturquoise: "#48d1cc",
+        mediumvioletred: "#c71585",
+        midnightblue: "#191970",
+        mintcream: "#f5fffa",
+        mistyrose: "#ffe4e1",
+        moccasin: "#ffe4b5",
+        navajowhite: "#ffdead",
+        navy: "#000080",
+        oldlace: "#fdf5e6",
+        olive: "#808000",
+        olivedrab: "#6b8e23",
+        orange: "#ffa500",
+        orangered: "#ff4500",
+        orchid: "#da70d6",
+        palegoldenrod: "#eee8aa",
+        palegreen: "#98fb98",
+        paleturquoise: "#afeeee",
+        palevioletred: "#d87093",
+        papayawhip: "#ffefd5",
+        peachpuff: "#ffdab9",
+        peru: "#cd853f",
+        pink: "#ffc0cb",
+        plum: "#dda0dd",
+        powderblue: "#b0e0e6",
+        purple: "#800080",
+        red: "#ff0000",
+        rosybrown: "#bc8f8f",
+        royalblue: "#4169e1",
+        saddlebrown: "#8b4513",
+        salmon: "#fa8072",
+        sandybrown: "#f4a460",
+        seagreen: "#2e8b57",
+        seashell: "#fff5ee",
+        sienna: "#a0522d",
+        silver: "#c0c0c0",
+        skyblue: "#87ceeb",
+        slateblue: "#6a5acd",
+        slategray: "#708090",
+        slategrey: "#708090",
+        snow: "#fffafa",
+        springgreen: "#00ff7f",
+        steelblue: "#4682b4",
+        tan: "#d2b48c",
+        teal: "#008080",
+        thistle: "#d8bfd8",
+        tomato: "#ff6347",
+        turquoise: "#40e0d0",
+        violet: "#ee82ee",
+        wheat: "#f5deb3",
+        white: "#ffffff",
+        whitesmoke: "#f5f5f5",
+        yellow: "#ffff00",
+        yellowgreen: "#9acd32",
+    };
+
+    // Linear light of an sRGB channel from 0 to 1
+    private static toLinear(channel: number): number {
+        return channel <= 0.04045 ? channel / 12.92 : Math.pow((channel + 0.055) / 1.055, 2.4);
+    }
+
+    private static fromLinear(channel: number): number {
+        return channel <= 0.0031308 ? channel * 12.92 : 1.055 * Math.pow(channel, 1 / 2.4) - 0.055;
+    }
+
+    // Linear sRGB channels, out of gamut colors have channels below 0 or above 1
+    private static oklch2linear(lightness: number, chroma: number, hue: number): number[] {
+        const x = chroma * Math.cos(hue * Math.PI / 180);
+        const y = chroma * Math.sin(hue * Math.PI / 180);
+        const l = Math.pow(lightness + 0.3963377774 * x + 0.2158037573 * y, 3);
+        const m = Math.pow(lightness - 0.1055613458 * x - 0.0638541728 * y, 3);
+        const s = Math.pow(lightness - 0.0894841775 * x - 1.2914855480 * y, 3);
+        return [
+            4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+            -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+            -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s,
+        ];
+    }
+
+    private static create(
+        r: number | undefined, g: number | undefined, b: number | undefined, a: number | undefined) {
+        if (r === undefined || g === undefined || b === undefined || a === undefined) {
+            return undefined;
+        }
+
+        return { r, g, b, a };
+    }
+
+    // A number, or a percentage of max, e.g. "50%" of 255. Values out of range are clamped, as in CSS
+    private static parseNumber(text: string, max: number, percentageOf = max): number | undefined {
+        const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%?)$/i.exec(text);
+        if (match === null) {
+            return undefined;
+        }
+
+        const value = parseFloat(match[1]);
+        return Math.min(Math.max(match[2] === "%" ? value / 100 * max : value / percentageOf * max, 0), max);
+    }
+
+    private static parseHue(text: string): number | undefined {
+        const units: { [unit: string]: number } = { "": 1, "deg": 1, "grad": 0.9, "rad": 180 / Math.PI, "turn": 360 };
+        const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(deg|grad|rad|turn)?$/i.exec(text);
+        if (match === null) {
+            return undefined;
+        }
+
+        return parseFloat(match[1]) * units[(match[2] || "").toLowerCase()];
+    }
+}
@@ -0,0 +1,158 @@
+import LanguageRegion from "./languageRegion";
+
+export default class EmbeddedLanguages {
+    // Split a markup document into regions of the host language and the <script> / <style> blocks inside it
+    // Embedded languages are only used if they were loaded for the document, otherwise the host language is kept
+    public static getRegions(text: string, hostLanguageID: string, embeddedLanguageIDs: string[]): LanguageRegion[] {
+        const regions: LanguageRegion[] = [];
+        const availableLanguages = new Set(embeddedLanguageIDs);
+        let hostStart = 0;
+
+        if (availableLanguages.size > 0) {
+            const tagRegex = /<!--[\s\S]*?-->|<(script|style)\b([^>]*)>/gi;
+            let match: RegExpExecArray | null;
+            // tslint:disable-next-line:no-conditional-assignment
+            while ((match = tagRegex.exec(text)) !== null) {
+                // Ignore tags that are commented out
+                if (match[1] === undefined) {
+                    continue;
+                }
+
+                const tag = match[1].toLowerCase();
+                const languageID = this.getLanguageID(tag, match[2], availableLanguages);
+                const contentStart = match.index + match[0].length;
+                const closingTag = new RegExp("</" + tag + "\\s*>", "i");
+                const closingMatch = closingTag.exec(text.substring(contentStart));
+                const contentEnd = closingMatch ? contentStart + closingMatch.index : text.length;
+
+                if (languageID === undefined || contentEnd === contentStart) {
+                    tagRegex.lastIndex = contentEnd;
+                    continue;
+                }
+
+                regions.push(new LanguageRegion(hostLanguageID, hostStart, contentStart));
+                regions.push(new LanguageRegion(languageID, contentStart, contentEnd));
+                hostStart = contentEnd;
+                tagRegex.lastIndex = contentEnd;
+            }
+        }
+
+        regions.push(new LanguageRegion(hostLanguageID, hostStart, text.length));
+
+        return regions.filter((region) => region.start !== region.end);
+    }
+
+    // Split a markdown document into regions of the host language and isolated regions of its code blocks
+    // getLanguageID returns the language of the name in the info string of a fence, the name is "" for code blocks
+    // without one, e.g. indented code blocks. Code blocks without a language stay in the host language
+    public static getCodeBlockRegions(
+        text: string, hostLanguageID: string, getLanguageID: (name: string) => string | undefined): LanguageRegion[] {
+        const regions: LanguageRegion[] = [];
+        let hostStart = 0;
+        let fence: { delimiter: string, contentStart: number, languageID: string | undefined } | undefined;
+        let indentedCode: { start: number, end: number } | undefined;
+        let isPreviousLineBlank = true;
+
+        const addCodeBlock = (languageID: string | undefined, start: number, end: number) => {
+            if (languageID !== undefined && start !== end) {
+                regions.push(new LanguageRegion(hostLanguageID, hostStart, start));
+                regions.push(new LanguageRegion(languageID, start, end, true));
+                hostStart = end;
+            }
+        };
+
+        const lineRegex = /.*(?:\r?\n|$)/g;
+        let match: RegExpExecArray | null;
+        // tslint:disable-next-line:no-conditional-assignment
+        while ((match = lineRegex.exec(text)) !== null && match.index < text.length) {
+            const line = match[0].replace(/\r?\n$/, "");
+            const lineEnd = match.index + match[0].length;
+
+            if (fence !== undefined) {
+                // A closing fence has at least as many backticks or tildes as the opening fence
+                const closingMatch = /^\s*(`{3,}|~{3,})\s*$/.exec(line);
+                if (closingMatch && closingMatch[1].startsWith(fence.delimiter)) {
+                    addCodeBlock(fence.languageID, fence.contentStart, match.index);
+                    // The closing fence belongs to no region
+                    if (fence.languageID !== undefined) {
+                        hostStart = lineEnd;
+                    }
+                    fence = undefined;
+                }
+                continue;
+            }
+
+            // Fences can be indented inside list items, e.g. ```ts or ~~~ {.python}
+            const openingMatch = /^\s*(`{3,}|~{3,})\s*\{?\.?([^\s{}`]*)/.exec(line);
+            const isBlank = line.trim() === "";
+            if (openingMatch && (openingMatch[1][0] === "~" || line.indexOf("`", openingMatch[0].length) === -1)) {
+                if (indentedCode !== undefined) {
+                    addCodeBlock(getLanguageID(""), indentedCode.start, indentedCode.end);
+                    indentedCode = undefined;
+                }
+                const languageID = getLanguageID(openingMatch[2]);
+                fence = { contentStart: lineEnd, delimiter: openingMatch[1], languageID };
+            }
+            else if (/^( {4}|\t)/.test(line) && !isBlank && (isPreviousLineBlank || indentedCode !== undefined)) {
+                indentedCode = { end: lineEnd, start: indentedCode !== undefined ? indentedCode.start : match.index };
+            }
+            else if (!isBlank && indentedCode !== undefined) {
+                addCodeBlock(getLanguageID(""), indentedCode.start, indentedCode.end);
+                indentedCode = undefined;
+            }
+
+            isPreviousLineBlank = isBlank;
+        }
+
+        // A fence which is never closed continues to the end of the document
+        if (fence !== undefined) {
+            addCodeBlock(fence.languageID, fence.contentStart, text.length);
+        }
+        else if (indentedCode !== undefined) {
+            addCodeBlock(getLanguageID(""), indentedCode.start, indentedCode.end);
+        }
+
+        regions.push(new LanguageRegion(hostLanguageID, hostStart, text.length));
+
+        return regions.filter((region) => region.start !== region.end);
+    }
+
+    private static readonly scriptLanguages: { [lang: string]: string } = {
+        babel: "javascript",
+        coffee: "coffeescript",
+        javascript: "javascript",
+        js: "javascript",
+        jsx: "jsx",
+        ts: "typescript",
+        tsx: "tsx",
+        typescript: "typescript",
+    };
+
+    private static readonly styleLanguages: { [lang: string]: string } = {
+        css: "css",
+        less: "less",
+        sass: "sass",
+        scss: "scss",
+        stylus: "stylus",
+    };
+
+    private static getLanguageID(tag: string, attributes: string, availableLanguages: Set<string>) {
+        const isScript = tag === "script";
+        const defaultLanguageID = isScript ? "javascript" : "css";
+        const langMatch = /\blang\s*=\s*["']?([\w-]+)/i.exec(attributes);
+        const typeMatch = /\btype\s*=\s*["']?(?:text|application)\/(?:x-)?([\w-]+)/i.exec(attributes);
+
+        let languageID: string | undefined = defaultLanguageID;
+
+        const lang = langMatch ? langMatch[1] : typeMatch ? typeMatch[1] : undefined;
+        if (lang !== undefined) {
+            const languages = isScript ? this.scriptLanguages : this.styleLanguages;
+            // e.g. <script type="text/x-template">, its content is not script
+            languageID = languages[lang.toLowerCase()];
+        }
+
+        if (languageID !== undefined && availableLanguages.has(languageID)) {
+            return languageID;
+        }
+    }
+}
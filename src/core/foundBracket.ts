@@ -0,0 +1,14 @@
+import Range from "./range";
+
+export default class FoundBracket {
+    public readonly range: Range;
+    public readonly character: string;
+    // Contextual brackets are either open or close brackets, depending on the text around them
+    public readonly isOpen: boolean | undefined;
+
+    constructor(range: Range, type: string, isOpen?: boolean) {
+        this.range = range;
+        this.character = type;
+        this.isOpen = isOpen;
+    }
+}
@@ -0,0 +1,92 @@
+// Code inside a string token, e.g. ${} of a JavaScript template string, its delimiters are matched as brackets
+export default class Interpolation {
+    // Interpolations of a Prism language, Prism nests them inconsistently so string tokens are scanned again
+    public static getInterpolations(prismLanguageID: string): Interpolation[] {
+        return this.interpolations[prismLanguageID] || [];
+    }
+
+    private static readonly interpolations: { [prismLanguageID: string]: Interpolation[] } = (() => {
+        const templateString = [new Interpolation("template-string", "${", "}")];
+        const fStringPrefix = /(^|[^\w])([fF][rR]?|[rR][fF])$/;
+        return {
+            bash: [
+                // Double quoted strings and here-documents, their text starts after <<
+                new Interpolation("string", "$(", ")", /^[^']/),
+                new Interpolation("variable", "$(", ")", /^\$\(/),
+            ],
+            javascript: templateString,
+            jsx: templateString,
+            python: [
+                new Interpolation("string", "{", "}", /(?:)/, fStringPrefix),
+                new Interpolation("triple-quoted-string", "{", "}", /(?:)/, fStringPrefix),
+            ],
+            ruby: [new Interpolation("string", "#{", "}", /^[^']/)],
+            tsx: templateString,
+            typescript: templateString,
+        };
+    })();
+
+    public readonly tokenType: string;
+    public readonly open: string;
+    public readonly close: string;
+    // Tested on the text of the token and the text before it, e.g. the f prefix of a Python string
+    public readonly text: RegExp;
+    public readonly textBefore: RegExp;
+
+    constructor(tokenType: string, open: string, close: string, text = /(?:)/, textBefore = /(?:)/) {
+        this.tokenType = tokenType;
+        this.open = open;
+        this.close = close;
+        this.text = text;
+        this.textBefore = textBefore;
+    }
+
+    public isInterpolated(text: string, textBefore: string): boolean {
+        return this.text.test(text) && this.textBefore.test(textBefore);
+    }
+
+    // Returns the next interpolation of the text, its end is -1 if it is not closed
+    // Escaped and doubled open delimiters are literal text, e.g. \${ in JavaScript and {{ in Python
+    public find(text: string, index: number): { start: number, end: number } | undefined {
+        for (let start = text.indexOf(this.open, index); start !== -1; start = text.indexOf(this.open, index)) {
+            const backslashes = /\\*$/.exec(text.substring(0, start)) as RegExpExecArray;
+            if (backslashes[0].length % 2 === 1) {
+                index = start + this.open.length;
+                continue;
+            }
+
+            if (text.startsWith(this.open + this.open, start)) {
+                index = start + this.open.length * 2;
+                continue;
+            }
+
+            return { start, end: this.findEnd(text, start + this.open.length) };
+        }
+    }
+
+    // Brackets of the open delimiter nest, quotes are skipped so a close delimiter in a nested string doesn't count
+    private findEnd(text: string, index: number): number {
+        const bracket = this.open[this.open.length - 1];
+        let depth = 0;
+        for (let i = index; i < text.length; i++) {
+            const character = text[i];
+            if (character === "\"" || character === "'" || character === "`") {
+                for (i++; i < text.length && text[i] !== character; i++) {
+                    if (text[i] === "\\") {
+                        i++;
+                    }
+                }
+            }
+            else if (text.startsWith(this.close, i) && depth === 0) {
+                return i;
+            }
+            else if (character === bracket) {
+                depth++;
+            }
+            else if (character === this.close[0]) {
+                depth--;
+            }
+        }
+        return -1;
+    }
+}
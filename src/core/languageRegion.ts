@@ -0,0 +1,16 @@
+export default class LanguageRegion {
+    public readonly languageID: string;
+    public readonly start: number;
+    public readonly end: number;
+    // Brackets of an isolated region don't nest with the brackets around it, e.g. a markdown code block
+    // Isolated regions start and end at the start of a line
+    public readonly isolated: boolean;
+
+    // start and end are offsets into the document text, end is exclusive
+    constructor(languageID: string, start: number, end: number, isolated = false) {
+        this.languageID = languageID;
+        this.start = start;
+        this.end = end;
+        this.isolated = isolated;
+    }
+}
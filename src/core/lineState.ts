@@ -1,19 +1,21 @@
-import { Position, Range } from "vscode";
+import AnalyzerSettings from "./analyzerSettings";
+import Bracket from "./bracket";
 import BracketPair from "./bracketPair";
 import ColorMode from "./colorMode";
 import ColorIndexes from "./IColorIndexes";
+import LineTranslation from "./lineTranslation";
 import ModifierPair from "./modifierPair";
 import MultipleIndexes from "./multipleIndexes";
+import Range from "./range";
 import Scope from "./scope";
-import Settings from "./settings";
 import SingularIndex from "./singularIndex";
 
 export default class LineState {
     private colorIndexes: ColorIndexes;
     private previousBracketColor: string;
-    private readonly settings: Settings;
+    private readonly settings: AnalyzerSettings;
 
-    constructor(settings: Settings, previousState?:
+    constructor(settings: AnalyzerSettings, previousState?:
         {
             colorIndexes: ColorIndexes;
             previousBracketColor: string;
@@ -73,8 +75,21 @@ export default class LineState {
         return color;
     }
 
-    public getOpenBrackets() {
-        return this.colorIndexes.getOpenBrackets();
+    public getLastOpenBracket(bracketPair: BracketPair): Bracket | undefined {
+        return this.colorIndexes.getLastOpenBracket(bracketPair);
+    }
+
+    public hasOpenBracket(bracketPair: BracketPair): boolean {
+        return this.colorIndexes.getCurrentLength(bracketPair) > 0;
+    }
+
+    // Number of open brackets the pair is nested in, counted per pair in independent mode
+    public getDepth(bracketPair: BracketPair): number {
+        return this.colorIndexes.getCurrentLength(bracketPair);
+    }
+
+    public getUnclosedBrackets(): Bracket[] {
+        return this.colorIndexes.getUnclosedBrackets();
     }
 
     public copyMultilineContext(): LineState {
@@ -87,7 +102,22 @@ export default class LineState {
         return new LineState(this.settings, clone);
     }
 
-    public getScope(position: Position): Scope | undefined {
-        return this.colorIndexes.getScope(position);
+    public isEquivalent(other: LineState, translation: LineTranslation): boolean {
+        return this.previousBracketColor === other.previousBracketColor &&
+            this.colorIndexes.isEquivalent(other.colorIndexes, translation);
+    }
+
+    public translate(translation: LineTranslation): LineState {
+        const translated =
+            {
+                colorIndexes: this.colorIndexes.translate(translation),
+                previousBracketColor: this.previousBracketColor,
+            };
+
+        return new LineState(this.settings, translated);
+    }
+
+    public getScopes(): Scope[] {
+        return this.colorIndexes.getScopes();
     }
 }
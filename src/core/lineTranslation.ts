@@ -0,0 +1,56 @@
+import Bracket from "./bracket";
+import Range from "./range";
+import Scope from "./scope";
+
+export default class LineTranslation {
+    public readonly fromLine: number;
+    public readonly lineDelta: number;
+    // Brackets are shared between the states of many lines, keep sharing them after translation
+    private readonly brackets = new Map<Bracket, Bracket>();
+
+    // Positions on or after fromLine are moved by lineDelta, positions before it are kept
+    constructor(fromLine: number, lineDelta: number) {
+        this.fromLine = fromLine;
+        this.lineDelta = lineDelta;
+    }
+
+    public line(line: number): number {
+        return line < this.fromLine ? line : line + this.lineDelta;
+    }
+
+    public range(range: Range): Range {
+        if (this.lineDelta === 0 || range.start.line < this.fromLine) {
+            return range;
+        }
+
+        return new Range(range.start.translate(this.lineDelta), range.end.translate(this.lineDelta));
+    }
+
+    public bracket(bracket: Bracket): Bracket {
+        let translated = this.brackets.get(bracket);
+        if (translated === undefined) {
+            const range = this.range(bracket.range);
+            // Keep unmoved brackets, so their scopes don't need to be replaced
+            translated = range === bracket.range ? bracket : new Bracket(bracket.character, range, bracket.colorIndex);
+            this.brackets.set(bracket, translated);
+        }
+
+        return translated;
+    }
+
+    public scope(scope: Scope): Scope {
+        const open = this.bracket(scope.open);
+        const close = this.bracket(scope.close);
+        if (open === scope.open && close === scope.close) {
+            return scope;
+        }
+
+        return new Scope(new Range(open.range.start, close.range.end), scope.color, open, close);
+    }
+
+    public isEquivalent(bracket: Bracket, untranslatedBracket: Bracket): boolean {
+        return bracket.character === untranslatedBracket.character &&
+            bracket.colorIndex === untranslatedBracket.colorIndex &&
+            bracket.range.isEqual(this.range(untranslatedBracket.range));
+    }
+}
@@ -0,0 +1,28 @@
+// A contextual pair, its open bracket only counts where the text around it matches, e.g. "<" of generics
+export default class ModifierPair {
+    public readonly openingCharacter: string;
+    public readonly closingCharacter: string;
+    // Prism languages or VSCode language ids of the rule
+    public readonly languageIDs: string[];
+    // Tested on the text of the line before and after the open bracket
+    public readonly textBefore: RegExp;
+    public readonly textAfter: RegExp;
+
+    constructor(
+        openingCharacter: string,
+        closingCharacter: string,
+        languageIDs: string[],
+        textBefore: RegExp,
+        textAfter: RegExp) {
+        this.openingCharacter = openingCharacter;
+        this.closingCharacter = closingCharacter;
+        this.languageIDs = languageIDs;
+        this.textBefore = textBefore;
+        this.textAfter = textAfter;
+    }
+
+    public canOpen(lineText: string, index: number): boolean {
+        return this.textBefore.test(lineText.substring(0, index)) &&
+            this.textAfter.test(lineText.substring(index + this.openingCharacter.length));
+    }
+}
@@ -0,0 +1,150 @@
+import AnalyzerSettings from "./analyzerSettings";
+import Bracket from "./bracket";
+import BracketPair from "./bracketPair";
+import ColorIndexes from "./IColorIndexes";
+import LineTranslation from "./lineTranslation";
+import Range from "./range";
+import Scope from "./scope";
+
+export default class MultipleIndexes implements ColorIndexes {
+    private openBrackets: { [key: string]: Bracket[]; } = {};
+    private previousOpenBracketColorIndexes: { [key: string]: number; } = {};
+    private bracketScopes: Scope[] = [];
+    private readonly settings: AnalyzerSettings;
+
+    constructor(
+        settings: AnalyzerSettings,
+        previousState?: {
+            currentOpenBracketColorIndexes: { [key: string]: Bracket[]; },
+            previousOpenBracketColorIndexes: { [key: string]: number; },
+            bracketScopes?: Scope[],
+        }) {
+        this.settings = settings;
+
+        if (previousState !== undefined) {
+            this.openBrackets = previousState.currentOpenBracketColorIndexes;
+            this.previousOpenBracketColorIndexes = previousState.previousOpenBracketColorIndexes;
+
+            if (previousState.bracketScopes !== undefined) {
+                this.bracketScopes = previousState.bracketScopes;
+            }
+
+        }
+        else {
+            settings.bracketPairs.forEach((bracketPair) => {
+                this.openBrackets[bracketPair.key] = [];
+                this.previousOpenBracketColorIndexes[bracketPair.key] = -1;
+            });
+        }
+    }
+
+    public getLastOpenBracket(bracketPair: BracketPair): Bracket | undefined {
+        const brackets = this.openBrackets[bracketPair.key];
+        for (let i = brackets.length - 1; i >= 0; i--) {
+            if (brackets[i].character === bracketPair.openCharacter) {
+                return brackets[i];
+            }
+        }
+    }
+
+    // Open brackets of all pairs in the order they were opened
+    public getUnclosedBrackets(): Bracket[] {
+        const brackets: Bracket[] = [];
+        Object.keys(this.openBrackets).forEach((key) => {
+            brackets.push(...this.openBrackets[key]);
+        });
+
+        return brackets.sort((a, b) => a.range.start.compareTo(b.range.start));
+    }
+
+    public getPreviousIndex(bracketPair: BracketPair): number {
+        return this.previousOpenBracketColorIndexes[bracketPair.key];
+    }
+
+    public setCurrent(bracketPair: BracketPair, range: Range, colorIndex: number) {
+        this.openBrackets[bracketPair.key].push(new Bracket(bracketPair.openCharacter, range, colorIndex));
+        this.previousOpenBracketColorIndexes[bracketPair.key] = colorIndex;
+    }
+
+    public getCurrentLength(bracketPair: BracketPair): number {
+        return this.openBrackets[bracketPair.key].length;
+    }
+
+    public getCurrentColorIndex(bracketPair: BracketPair, range: Range): number | undefined {
+        const openBracket = this.openBrackets[bracketPair.key].pop();
+        if (openBracket) {
+            const closeBracket = new Bracket(bracketPair.closeCharacter, range, openBracket.colorIndex);
+            const scopeRange = new Range(openBracket.range.start, range.end);
+            this.bracketScopes.push(
+                new Scope(scopeRange, bracketPair.colors[openBracket.colorIndex], openBracket, closeBracket),
+            );
+            return openBracket.colorIndex;
+        }
+    }
+
+    // Scopes closed since this index was cloned
+    public getScopes(): Scope[] {
+        return this.bracketScopes;
+    }
+
+    // Compare the bracket state, other is translated first. Found scopes are not compared
+    public isEquivalent(other: ColorIndexes, translation: LineTranslation): boolean {
+        if (!(other instanceof MultipleIndexes)) {
+            return false;
+        }
+
+        const keys = Object.keys(this.openBrackets);
+        return keys.length === Object.keys(other.openBrackets).length && keys.every((key) => {
+            const brackets = this.openBrackets[key];
+            const otherBrackets = other.openBrackets[key];
+
+            return otherBrackets !== undefined &&
+                this.previousOpenBracketColorIndexes[key] === other.previousOpenBracketColorIndexes[key] &&
+                brackets.length === otherBrackets.length &&
+                brackets.every((bracket, index) => translation.isEquivalent(bracket, otherBrackets[index]));
+        });
+    }
+
+    public translate(translation: LineTranslation): ColorIndexes {
+        const bracketColorIndexesCopy: { [key: string]: Bracket[]; } = {};
+
+        Object.keys(this.openBrackets).forEach((key) => {
+            bracketColorIndexesCopy[key] = this.openBrackets[key].map((bracket) => translation.bracket(bracket));
+        });
+
+        const previousOpenBracketIndexesCopy: { [key: string]: number; } = {};
+
+        Object.keys(this.previousOpenBracketColorIndexes).forEach((key) => {
+            previousOpenBracketIndexesCopy[key] = this.previousOpenBracketColorIndexes[key];
+        });
+
+        return new MultipleIndexes(
+            this.settings,
+            {
+                bracketScopes: this.bracketScopes.map((scope) => translation.scope(scope)),
+                currentOpenBracketColorIndexes: bracketColorIndexesCopy,
+                previousOpenBracketColorIndexes: previousOpenBracketIndexesCopy,
+            });
+    }
+
+    public clone(): ColorIndexes {
+        const bracketColorIndexesCopy: { [key: string]: Bracket[]; } = {};
+
+        Object.keys(this.openBrackets).forEach((key) => {
+            bracketColorIndexesCopy[key] = this.openBrackets[key].slice();
+        });
+
+        const previousOpenBracketIndexesCopy: { [key: string]: number; } = {};
+
+        Object.keys(this.previousOpenBracketColorIndexes).forEach((key) => {
+            previousOpenBracketIndexesCopy[key] = this.previousOpenBracketColorIndexes[key];
+        });
+
+        return new MultipleIndexes(
+            this.settings,
+            {
+                currentOpenBracketColorIndexes: bracketColorIndexesCopy,
+                previousOpenBracketColorIndexes: previousOpenBracketIndexesCopy,
+            });
+    }
+}
@@ -0,0 +1,59 @@
+import * as minimatch from "minimatch";
+import IConfiguration from "./IConfiguration";
+import ISettingObject from "./ISettingObject";
+import SettingValue from "./settingValue";
+import SettingValues from "./settingValues";
+
+// Settings of languageOverrides replace the settings of the configuration,
+// e.g. { "html": { "consecutivePairColors": [...] }, "**/*.scm": { "colorMode": "Independent" } }
+export default class OverrideConfiguration implements IConfiguration {
+    // Keys of the overrides which apply, in the order they are applied
+    public readonly keys: string[] = [];
+    private readonly configuration: IConfiguration;
+    private readonly overrides: ISettingObject[] = [];
+
+    // Keys are language ids, or globs which are matched against filePath
+    constructor(configuration: IConfiguration, languageID?: string, filePath?: string) {
+        this.configuration = configuration;
+
+        const languageOverrides = configuration.get<SettingValue>("languageOverrides");
+
+        if (!SettingValues.isObject(languageOverrides)) {
+            throw new Error("languageOverrides is not an object");
+        }
+
+        const keys = Object.keys(languageOverrides);
+        const overrides = new Map<string, ISettingObject>();
+        keys.forEach((key) => {
+            const override = languageOverrides[key];
+            if (!SettingValues.isObject(override)) {
+                throw new Error("languageOverrides[\"" + key + "\"] is not an object");
+            }
+            overrides.set(key, override);
+        });
+
+        // Globs are more specific than languages, so they are applied last
+        const isGlob = (key: string) => /[*?{}\[\]\/.]/.test(key);
+        const languageKeys = keys.filter((key) => !isGlob(key) && key === languageID);
+        const globKeys = keys.filter((key) => isGlob(key) && filePath !== undefined &&
+            minimatch(filePath.replace(/\\/g, "/"), key, { dot: true, matchBase: true }));
+
+        languageKeys.concat(globKeys).forEach((key) => {
+            const override = overrides.get(key);
+            if (override !== undefined) {
+                this.keys.push(key);
+                this.overrides.push(override);
+            }
+        });
+    }
+
+    public get<T>(section: string): T | undefined {
+        // The last override with the setting replaces the others
+        const overrides = this.overrides.filter((e) => e[section] !== undefined);
+        if (overrides.length > 0) {
+            return overrides[overrides.length - 1][section] as T | undefined;
+        }
+
+        return this.configuration.get<T>(section);
+    }
+}
@@ -0,0 +1,42 @@
+export default class Position {
+    public readonly line: number;
+    public readonly character: number;
+
+    // line and character are zero based
+    constructor(line: number, character: number) {
+        this.line = line;
+        this.character = character;
+    }
+
+    public compareTo(other: Position): number {
+        if (this.line !== other.line) {
+            return this.line - other.line;
+        }
+
+        return this.character - other.character;
+    }
+
+    public isBefore(other: Position): boolean {
+        return this.compareTo(other) < 0;
+    }
+
+    public isBeforeOrEqual(other: Position): boolean {
+        return this.compareTo(other) <= 0;
+    }
+
+    public isAfter(other: Position): boolean {
+        return this.compareTo(other) > 0;
+    }
+
+    public isAfterOrEqual(other: Position): boolean {
+        return this.compareTo(other) >= 0;
+    }
+
+    public isEqual(other: Position): boolean {
+        return this.compareTo(other) === 0;
+    }
+
+    public translate(lineDelta = 0, characterDelta = 0): Position {
+        return new Position(this.line + lineDelta, this.character + characterDelta);
+    }
+}
@@ -0,0 +1,181 @@
+import * as Prism from "prismjs";
+import IConfiguration from "./IConfiguration";
+import RegexLanguage from "./regexLanguage";
+import SettingValue from "./settingValue";
+import SettingValues from "./settingValues";
+
+export default class PrismLanguages {
+    // Returns the Prism language of a VSCode language id, followed by the languages which can be embedded in it
+    // Languages of the regexLanguages setting are tokenized by a grammar built from their delimiters, "*" is used
+    // for languages Prism does not support, unless it is null
+    public static getPrismLanguageIDs(languageID: string, configuration?: IConfiguration): string[] {
+        const prismLanguageIDs = this.getMappedLanguageIDs(languageID, configuration);
+        const regexLanguages = configuration !== undefined ?
+            configuration.get<SettingValue>("regexLanguages") : {};
+
+        if (!SettingValues.isObject(regexLanguages)) {
+            throw new Error("regexLanguages is not an object");
+        }
+
+        if (regexLanguages[languageID] !== undefined) {
+            return [this.registerRegexLanguage(languageID, regexLanguages[languageID], languageID)];
+        }
+
+        if (regexLanguages["*"] !== undefined && regexLanguages["*"] !== null &&
+            !this.isSupported(prismLanguageIDs[0])) {
+            return [this.registerRegexLanguage(languageID, regexLanguages["*"], "*")];
+        }
+
+        return prismLanguageIDs;
+    }
+
+    // The grammar of a loaded Prism language, or of a language of the regexLanguages setting, which has a keyword
+    // token for the keywords of keyword pairs
+    public static getGrammar(prismLanguageID: string, keywords: string[]): Prism.LanguageDefinition | undefined {
+        const regexLanguage = this.regexLanguages.get(prismLanguageID);
+        return regexLanguage !== undefined ? regexLanguage.createGrammar(keywords) : Prism.languages[prismLanguageID];
+    }
+
+    // Languages of the regexLanguages setting are registered again when the settings change
+    public static clearRegexLanguages() {
+        this.regexLanguages.clear();
+        this.regexLanguageIDs.clear();
+    }
+
+    public static isSupported(prismLanguageID: string): boolean {
+        return this.supportedLanguages.has(prismLanguageID) || this.isRegexLanguage(prismLanguageID);
+    }
+
+    public static isRegexLanguage(prismLanguageID: string): boolean {
+        return this.regexLanguages.has(prismLanguageID);
+    }
+
+    public static isLoaded(prismLanguageID: string): boolean {
+        return this.loadedLanguages.has(prismLanguageID) || this.isRegexLanguage(prismLanguageID);
+    }
+
+    public static loadLanguageOnce(prismLanguageID: string) {
+        if (this.loadedLanguages.has(prismLanguageID) || this.isRegexLanguage(prismLanguageID)) {
+            return;
+        }
+        this.loadLanguages([prismLanguageID]);
+        this.loadedLanguages.add(prismLanguageID);
+    }
+
+    // A Prism language, one of its aliases or a VSCode language id, e.g. the info string of a markdown code fence
+    // Returns undefined if Prism does not support the language
+    public static getLanguageIDByName(name: string): string | undefined {
+        const lowerCaseName = name.toLowerCase();
+        const candidates = [
+            this.aliases[lowerCaseName],
+            lowerCaseName,
+            this.getMappedLanguageIDs(lowerCaseName)[0],
+        ];
+
+        return candidates.find((e) => e !== undefined && this.isSupported(e));
+    }
+
+    // The Prism languages of a VSCode language id, the languageMap setting takes precedence over the built-in mapping
+    public static getMappedLanguageIDs(languageID: string, configuration?: IConfiguration): string[] {
+        const languageMap = configuration !== undefined ?
+            configuration.get("languageMap") as { [languageID: string]: string | string[] } : {};
+
+        if (typeof languageMap !== "object" || languageMap === null || Array.isArray(languageMap)) {
+            throw new Error("languageMap is not an object");
+        }
+
+        const mapped = languageMap[languageID];
+        if (mapped !== undefined) {
+            const prismLanguageIDs = Array.isArray(mapped) ? mapped : [mapped];
+            if (prismLanguageIDs.length === 0 || prismLanguageIDs.some((e) => typeof e !== "string")) {
+                throw new Error("languageMap[\"" + languageID + "\"] is not a string or an array of strings");
+            }
+
+            return prismLanguageIDs;
+        }
+
+        // Some VSCode language ids need to be mapped to match http://prismjs.com/#languages-list
+        switch (languageID) {
+            case "ahk": return ["autohotkey"];
+            case "bat": return ["batch"];
+            case "apex": return ["java"];
+            case "gradle": return ["groovy"];
+            case "html": return ["markup", "javascript", "css"];
+            case "javascriptreact": return ["jsx"];
+            case "json5": return ["javascript"];
+            case "jsonc": return ["javascript"];
+            case "mathml": return ["markup"];
+            case "nunjucks": return ["twig"];
+            case "razor": return ["markup", "javascript", "css"];
+            case "scad": return ["swift"]; // Workaround
+            case "shellscript": return ["bash"];
+            case "svg": return ["markup"];
+            case "systemverilog": return ["verilog"];
+            case "typescriptreact": return ["tsx"];
+            case "vb": return ["vbnet"];
+            case "vue": return ["markup", "javascript", "typescript", "css", "scss", "less"];
+            case "xml": return ["markup"];
+            default: return [languageID];
+        }
+    }
+
+    // Common names of languages in code fences, besides the aliases of Prism
+    private static readonly aliases: { [name: string]: string } = (() => {
+        const aliases: { [name: string]: string } = {
+            "c#": "csharp",
+            "c++": "cpp",
+            "cs": "csharp",
+            "kt": "kotlin",
+            "md": "markdown",
+            "ps1": "powershell",
+            "py": "python",
+            "rb": "ruby",
+            "rs": "rust",
+            "sh": "bash",
+            "shell": "bash",
+            "shellscript": "bash",
+            "yml": "yaml",
+            "zsh": "bash",
+        };
+
+        const languages = require("prismjs/components").languages;
+        Object.keys(languages).forEach((languageID) => {
+            const alias: string | string[] | undefined = languages[languageID].alias;
+            (Array.isArray(alias) ? alias : alias ? [alias] : []).forEach((e) => {
+                if (aliases[e] === undefined) {
+                    aliases[e] = languageID;
+                }
+            });
+        });
+
+        return aliases;
+    })();
+    private static readonly loadLanguages = require("prismjs/components/index.js");
+    private static readonly loadedLanguages = new Set<string>();
+    // Languages of the regexLanguages setting by their Prism language id, and their ids by language and definition
+    // They are not added to Prism.languages, so they don't remain there once the settings change
+    private static readonly regexLanguages = new Map<string, RegexLanguage>();
+    private static readonly regexLanguageIDs = new Map<string, string>();
+    private static readonly supportedLanguages = new Set(Object.keys(require("prismjs/components").languages));
+
+    // Grammars are registered once per definition, documents of a language can have different definitions
+    private static registerRegexLanguage(languageID: string, definition: SettingValue, key: string): string {
+        const language = new RegexLanguage(definition, "regexLanguages[\"" + key + "\"]");
+        const definitionKey = JSON.stringify(
+            [languageID, language.lineComments, language.blockComments, language.strings]);
+        const registeredID = this.regexLanguageIDs.get(definitionKey);
+        if (registeredID !== undefined) {
+            return registeredID;
+        }
+
+        let prismLanguageID = "regex-" + languageID;
+        for (let i = 2; this.regexLanguages.has(prismLanguageID) || this.supportedLanguages.has(prismLanguageID); i++) {
+            prismLanguageID = "regex-" + languageID + "-" + i;
+        }
+
+        this.regexLanguages.set(prismLanguageID, language);
+        this.regexLanguageIDs.set(definitionKey, prismLanguageID);
+        return prismLanguageID;
+    }
+
+}
@@ -0,0 +1,352 @@
+import * as Prism from "prismjs";
+import AnalyzerSettings from "./analyzerSettings";
+import Checkpoint from "./checkpoint";
+import EmbeddedLanguages from "./embeddedLanguages";
+import Interpolation from "./interpolation";
+import ITokenizer from "./ITokenizer";
+import Position from "./position";
+import PrismLanguages from "./prismLanguages";
+import SpanKind from "./spanKind";
+import TokenSpan from "./tokenSpan";
+
+// Tokenizes with the Prism grammar of a language, the token types of prismTokenTypes are scanned for brackets
+export default class PrismTokenizer implements ITokenizer {
+    // Token types of the tokens of scannedTokens
+    private static readonly scannedTokenTypes: { [token: string]: string[] } = {
+        comment: ["comment"],
+        regex: ["regex"],
+        string: ["string", "template-string", "triple-quoted-string"],
+    };
+
+    // Token types which are scanned as a string, and token types of which only some nested tokens are scanned
+    private readonly stringKinds = new Map<string, Map<string, SpanKind>>();
+    private readonly arrayIndexes = new Map<string, Map<string, number[]>>();
+    private readonly interpolations = new Map<string, Interpolation[]>();
+    private readonly isolatedTypes = new Map<string, Set<string>>();
+    // Grammars once their language is loaded, the grammars of regexLanguages are built for the keywords of the settings
+    private readonly grammars = new Map<string, Prism.LanguageDefinition>();
+    // Language of the token currently being parsed, embedded languages have their own token types
+    private currentLanguageID = "";
+    // Text of the last string parsed, e.g. the f prefix of a Python f-string
+    private textBefore = "";
+    // Inside a string which is not interpolated, its nested tokens are not interpolated either
+    private isLiteral = false;
+
+    private readonly settings: AnalyzerSettings;
+
+    constructor(settings: AnalyzerSettings) {
+        this.settings = settings;
+        this.addLanguage(settings.languageID);
+        settings.embeddedLanguageIDs.forEach((languageID) => this.addLanguage(languageID));
+    }
+
+    // Checkpoints are made at the start of lines which are not inside a token
+    public tokenize(text: string, languageID: string, start: Position) {
+        // Languages of markdown code blocks are only known once they are found
+        if (!this.stringKinds.has(languageID)) {
+            this.addLanguage(languageID);
+        }
+
+        let tokenized: Array<string | Prism.Token> | undefined;
+        try {
+            tokenized = Prism.tokenize(text, this.getGrammar(languageID));
+        }
+        catch (err) {
+            console.warn(err);
+            return;
+        }
+
+        if (!tokenized) {
+            console.warn("Could not tokenize language: " + languageID);
+            return;
+        }
+
+        const spans: TokenSpan[] = [];
+        const checkpoints: Checkpoint[] = [];
+        let lineIndex = start.line;
+        let charIndex = start.character;
+        this.currentLanguageID = languageID;
+        this.textBefore = "";
+
+        tokenized.forEach((token) => {
+            let result: { lineIndex: number, charIndex: number };
+            if (token instanceof Prism.Token) {
+                result = this.parseToken(token, lineIndex, charIndex, spans);
+                if (result.charIndex === 0 && result.lineIndex > lineIndex) {
+                    checkpoints.push(new Checkpoint(result.lineIndex, languageID));
+                }
+            }
+            else {
+                result = this.parseString(token, lineIndex, charIndex);
+                for (let line = lineIndex + 1; line <= result.lineIndex; line++) {
+                    checkpoints.push(new Checkpoint(line, languageID));
+                }
+            }
+            lineIndex = result.lineIndex;
+            charIndex = result.charIndex;
+        });
+
+        return { spans, checkpoints };
+    }
+
+    // Prism has no state between lines
+    public isSameState() {
+        return true;
+    }
+
+    // Markdown code blocks are tokenized in the language of their fence, which is loaded once it is used
+    public getRegions(text: string, languageID: string) {
+        if (languageID !== "markdown") {
+            return EmbeddedLanguages.getRegions(text, languageID, this.settings.embeddedLanguageIDs);
+        }
+
+        return EmbeddedLanguages.getCodeBlockRegions(text, languageID, (name) => {
+            const codeLanguageID =
+                PrismLanguages.getLanguageIDByName(name !== "" ? name : this.settings.markdownCodeLanguage);
+            if (codeLanguageID !== undefined) {
+                PrismLanguages.loadLanguageOnce(codeLanguageID);
+            }
+            return codeLanguageID;
+        });
+    }
+
+    private getGrammar(languageID: string): Prism.LanguageDefinition {
+        let grammar = this.grammars.get(languageID);
+        if (grammar === undefined) {
+            grammar = PrismLanguages.getGrammar(languageID, this.settings.keywords);
+            if (grammar !== undefined) {
+                this.grammars.set(languageID, grammar);
+            }
+        }
+
+        return grammar as Prism.LanguageDefinition;
+    }
+
+    private addLanguage(languageID: string) {
+        const stringKinds = new Map<string, SpanKind>();
+        const arrayIndexes = new Map<string, number[]>();
+
+        this.stringKinds.set(languageID, stringKinds);
+        this.arrayIndexes.set(languageID, arrayIndexes);
+        this.interpolations.set(languageID, Interpolation.getInterpolations(languageID));
+
+        // Scanned comments, strings and regular expressions are matched in their own nesting context
+        const isolatedTypes = new Set<string>();
+        Object.keys(PrismTokenizer.scannedTokenTypes).filter((token) => this.settings.isScanned(token, languageID))
+            .forEach((token) => PrismTokenizer.scannedTokenTypes[token].forEach((type) => isolatedTypes.add(type)));
+        this.isolatedTypes.set(languageID, isolatedTypes);
+
+        // Token types of prismTokenTypes, e.g. punctuation on all languages
+        this.settings.getTokenTypes(languageID).forEach((tokenType) => {
+            if (tokenType.indexes === undefined) {
+                stringKinds.set(tokenType.type, SpanKind.Bracket);
+            }
+            else {
+                arrayIndexes.set(tokenType.type, tokenType.indexes);
+            }
+        });
+
+        // Keyword pairs, e.g. begin/end, are only matched where the language marks a keyword,
+        // unless keywords are scanned for other brackets by prismTokenTypes
+        if (this.settings.hasKeywordPairs && !stringKinds.has("keyword") && !arrayIndexes.has("keyword")) {
+            stringKinds.set("keyword", SpanKind.Keyword);
+        }
+
+        // Contextual pairs are operators in most languages, e.g. "<" of generics
+        if (this.settings.getModifierPairs(languageID).length > 0) {
+            stringKinds.set("operator", SpanKind.Contextual);
+        }
+    }
+
+    private parseTokenOrStringArray(
+        tokenized: Array<string | Prism.Token>,
+        lineIndex: number,
+        charIndex: number,
+        spans: TokenSpan[]) {
+        tokenized.forEach((token) => {
+            const result = token instanceof Prism.Token ?
+                this.parseToken(token, lineIndex, charIndex, spans) :
+                this.parseString(token, lineIndex, charIndex);
+            charIndex = result.charIndex;
+            lineIndex = result.lineIndex;
+        });
+        return { lineIndex, charIndex };
+    }
+
+    private parseString(content: string, lineIndex: number, charIndex: number) {
+        this.textBefore = content;
+        const split = content.split("\n");
+        if (split.length > 1) {
+            lineIndex += split.length - 1;
+            charIndex = split[split.length - 1].length;
+        }
+        else {
+            charIndex += content.length;
+        }
+        return { lineIndex, charIndex };
+    }
+
+    private parseToken(
+        token: Prism.Token,
+        lineIndex: number,
+        charIndex: number,
+        spans: TokenSpan[]): { lineIndex: number, charIndex: number } {
+        // Prism marks grammars nested inside another grammar with an alias, e.g. style="" attributes in markup
+        const embeddedLanguageID = this.getEmbeddedLanguageID(token);
+        if (embeddedLanguageID !== undefined && embeddedLanguageID !== this.currentLanguageID) {
+            const hostLanguageID = this.currentLanguageID;
+            this.currentLanguageID = embeddedLanguageID;
+            const result = this.parseToken(token, lineIndex, charIndex, spans);
+            this.currentLanguageID = hostLanguageID;
+            return result;
+        }
+
+        const text = this.getText(token);
+        const isIsolated = (this.isolatedTypes.get(this.currentLanguageID) as Set<string>).has(token.type);
+        const interpolations = this.interpolations.get(this.currentLanguageID) as Interpolation[];
+        const interpolation = this.isLiteral ? undefined :
+            interpolations.find((e) => e.tokenType === token.type && e.isInterpolated(text, this.textBefore));
+        if (interpolation !== undefined) {
+            return this.parseInterpolations(interpolation, text, isIsolated, lineIndex, charIndex, spans);
+        }
+
+        if (isIsolated) {
+            spans.push(new TokenSpan(
+                new Position(lineIndex, charIndex), text, SpanKind.Isolated, this.currentLanguageID));
+            return this.parseString(text, lineIndex, charIndex);
+        }
+
+        // A string which is not interpolated is literal, e.g. a single quoted shell string, Prism nests variables in it
+        if (!this.isLiteral && interpolations.some((e) => e.tokenType === token.type)) {
+            this.isLiteral = true;
+            const result = this.parseToken(token, lineIndex, charIndex, spans);
+            this.isLiteral = false;
+            return result;
+        }
+
+        if (typeof token.content === "string") {
+            const kind = (this.stringKinds.get(this.currentLanguageID) as Map<string, SpanKind>).get(token.type);
+            if (kind !== undefined) {
+                const start = new Position(lineIndex, charIndex);
+                spans.push(new TokenSpan(start, token.content, kind, this.currentLanguageID));
+            }
+
+            return this.parseString(token.content, lineIndex, charIndex);
+        }
+        else if (Array.isArray(token.content)) {
+            const indexes = (this.arrayIndexes.get(this.currentLanguageID) as Map<string, number[]>).get(token.type);
+            if (indexes !== undefined) {
+                return this.parseArrayElements(indexes, token.content, lineIndex, charIndex, spans);
+            }
+
+            // A type without indexes scans every string element, e.g. attr-name of markup nests its namespace
+            const kind = (this.stringKinds.get(this.currentLanguageID) as Map<string, SpanKind>).get(token.type);
+            if (kind === SpanKind.Bracket) {
+                const allIndexes = token.content.map((e, index) => index);
+                return this.parseArrayElements(allIndexes, token.content, lineIndex, charIndex, spans);
+            }
+
+            return this.parseTokenOrStringArray(token.content, lineIndex, charIndex, spans);
+        }
+        else {
+            return this.parseToken(token.content, lineIndex, charIndex, spans);
+        }
+    }
+
+    private getText(token: string | Prism.Token | Array<string | Prism.Token>): string {
+        if (typeof token === "string") {
+            return token;
+        }
+
+        return Array.isArray(token) ? token.map((e) => this.getText(e)).join("") : this.getText(token.content);
+    }
+
+    // The code of the interpolations is tokenized again with the grammar of the language, so its brackets continue the
+    // depth of the enclosing code. The text of the string is skipped, unless it is scanned, then it is one span in
+    // which the interpolations are blanked out
+    private parseInterpolations(
+        interpolation: Interpolation, text: string, isIsolated: boolean,
+        lineIndex: number, charIndex: number, spans: TokenSpan[]) {
+        const start = new Position(lineIndex, charIndex);
+        const spanIndex = spans.length;
+        let isolatedText = "";
+        let index = 0;
+        let found = interpolation.find(text, index);
+        while (found !== undefined) {
+            const end = found.end !== -1 ? found.end + interpolation.close.length : text.length;
+            const codeStart = found.start + interpolation.open.length;
+            const code = text.substring(codeStart, found.end !== -1 ? found.end : text.length);
+
+            // The rest of the text is string content if its code can't be tokenized
+            let tokenized: Array<string | Prism.Token>;
+            try {
+                tokenized = Prism.tokenize(code, this.getGrammar(this.currentLanguageID));
+            }
+            catch (err) {
+                console.warn(err);
+                break;
+            }
+
+            isolatedText += text.substring(index, found.start) + text.substring(found.start, end).replace(/./g, " ");
+
+            ({ lineIndex, charIndex } = this.parseString(text.substring(index, found.start), lineIndex, charIndex));
+            spans.push(new TokenSpan(
+                new Position(lineIndex, charIndex), interpolation.open, SpanKind.Bracket, this.currentLanguageID));
+            charIndex += interpolation.open.length;
+
+            ({ lineIndex, charIndex } = this.parseTokenOrStringArray(tokenized, lineIndex, charIndex, spans));
+            if (found.end !== -1) {
+                spans.push(new TokenSpan(
+                    new Position(lineIndex, charIndex), interpolation.close, SpanKind.Bracket, this.currentLanguageID));
+                charIndex += interpolation.close.length;
+            }
+
+            index = end;
+            found = found.end !== -1 ? interpolation.find(text, index) : undefined;
+        }
+
+        // Spans are in the order of their start
+        isolatedText += text.substring(index);
+        if (isIsolated) {
+            spans.splice(spanIndex, 0, new TokenSpan(start, isolatedText, SpanKind.Isolated, this.currentLanguageID));
+        }
+
+        return this.parseString(text.substring(index), lineIndex, charIndex);
+    }
+
+    private getEmbeddedLanguageID(token: Prism.Token): string | undefined {
+        const alias: string | string[] | undefined = token.alias;
+        const aliases = Array.isArray(alias) ? alias : alias ? [alias] : [];
+        for (const name of aliases) {
+            if (name.startsWith("language-")) {
+                const languageID = name.substring("language-".length);
+                if (this.stringKinds.has(languageID)) {
+                    return languageID;
+                }
+            }
+        }
+    }
+
+    // Only the string elements at the indexes are scanned, negative indexes count from the end
+    // e.g. markdown url: ![Disabled](images/forceUniqueOpeningColorDisabled.png "forceUniqueOpeningColor")
+    // [0]: ![Disabled](images/forceUniqueOpeningColorDisabled.png
+    // [1]: "forceUniqueOpeningColor Disabled"
+    // [2]: )
+    private parseArrayElements(
+        indexes: number[], array: Array<string | Prism.Token>,
+        lineIndex: number, charIndex: number, spans: TokenSpan[]) {
+        const arrayIndexes = new Set(indexes.map((e) => e < 0 ? array.length + e : e));
+        for (let i = 0; i < array.length; i++) {
+            const content = array[i];
+            if (arrayIndexes.has(i) && typeof content === "string") {
+                spans.push(new TokenSpan(
+                    new Position(lineIndex, charIndex), content, SpanKind.Bracket, this.currentLanguageID));
+            }
+
+            const result = this.parseTokenOrStringArray([content], lineIndex, charIndex, spans);
+            lineIndex = result.lineIndex;
+            charIndex = result.charIndex;
+        }
+        return { lineIndex, charIndex };
+    }
+}
@@ -0,0 +1,19 @@
+import Position from "./position";
+
+export default class Range {
+    public readonly start: Position;
+    public readonly end: Position;
+
+    constructor(start: Position, end: Position) {
+        this.start = start;
+        this.end = end;
+    }
+
+    public contains(position: Position): boolean {
+        return this.start.isBeforeOrEqual(position) && this.end.isAfterOrEqual(position);
+    }
+
+    public isEqual(other: Range): boolean {
+        return this.start.isEqual(other.start) && this.end.isEqual(other.end);
+    }
+}
@@ -0,0 +1,73 @@
+import * as Prism from "prismjs";
+import SettingValue from "./settingValue";
+import SettingValues from "./settingValues";
+
+// A language which Prism does not tokenize, described by its comment and string delimiters, e.g.
+// { "lineComments": ["#"], "blockComments": [["/*", "*/"]], "strings": [["\"", "\""], ["'", "'", ""]] }
+export default class RegexLanguage {
+    public readonly lineComments: string[];
+    public readonly blockComments: Array<[string, string]>;
+    // Open delimiter, close delimiter and escape character, an empty escape character for none
+    public readonly strings: Array<[string, string, string]>;
+
+    constructor(definition: SettingValue, name: string) {
+        if (!SettingValues.isObject(definition)) {
+            throw new Error(name + " is not an object");
+        }
+
+        const { lineComments = [], blockComments = [], strings = [] } = definition;
+
+        if (!SettingValues.isStringArray(lineComments) || lineComments.some((e) => e === "")) {
+            throw new Error(name + ".lineComments is not an array of strings");
+        }
+
+        // The third delimiter of a string is its escape character, which can be empty
+        const isDelimiterPair = (e: SettingValue): e is string[] => SettingValues.isStringArray(e) &&
+            e.length >= 2 && e.length <= 3 && e.every((delimiter, index) => delimiter !== "" || index === 2);
+
+        if (!SettingValues.isArray(blockComments) ||
+            blockComments.some((e) => !isDelimiterPair(e) || e.length !== 2)) {
+            throw new Error(name + ".blockComments is not an array of delimiter pairs, e.g. [['/*', '*/']]");
+        }
+
+        if (!SettingValues.isArray(strings) || strings.some((e) => !isDelimiterPair(e))) {
+            throw new Error(name + ".strings is not an array of delimiter pairs, e.g. [['\"', '\"', '\\\\']]");
+        }
+
+        this.lineComments = lineComments;
+        this.blockComments = (blockComments as string[][]).map((e) => [e[0], e[1]] as [string, string]);
+        this.strings = (strings as string[][]).map((e) =>
+            [e[0], e[1], e.length === 3 ? e[2] : "\\"] as [string, string, string]);
+    }
+
+    // Comments and strings are skipped, brackets are matched in the punctuation between them, and in the keywords of
+    // keyword pairs, e.g. begin/end
+    public createGrammar(keywords: string[]): Prism.LanguageDefinition {
+        const escape = (s: string) => s.replace(/[-\/\\^$*+?.()|[\]{}]/g, "\\$&");
+        const grammar: { [type: string]: RegExp | { pattern: RegExp, greedy: boolean } } = {};
+
+        // Greedy patterns are matched in the order they appear in the text, e.g. "//" inside a string
+        const comments = this.lineComments.map((e) => escape(e) + ".*")
+            .concat(this.blockComments.map(([open, close]) => escape(open) + "[\\s\\S]*?" + escape(close)));
+        if (comments.length > 0) {
+            grammar.comment = { pattern: new RegExp(comments.join("|")), greedy: true };
+        }
+
+        // Strings end at their line, so an unbalanced quote doesn't hide the brackets of the following lines
+        const strings = this.strings.map(([open, close, escapeCharacter]) => {
+            const content = escapeCharacter === "" ? ".*?" : "(?:" + escape(escapeCharacter) + ".|(?!" +
+                escape(close) + ")[^\\r\\n" + escape(escapeCharacter) + "])*";
+            return escape(open) + content + escape(close);
+        });
+        if (strings.length > 0) {
+            grammar.string = { pattern: new RegExp(strings.join("|")), greedy: true };
+        }
+
+        if (keywords.length > 0) {
+            grammar.keyword = new RegExp("\\b(?:" + keywords.map(escape).join("|") + ")\\b");
+        }
+        grammar.punctuation = /[^\w\s]+/;
+
+        return grammar as Prism.LanguageDefinition;
+    }
+}
@@ -1,5 +1,5 @@
-import { Range } from "vscode";
 import Bracket from "./bracket";
+import Range from "./range";
 
 export default class Scope {
     public readonly open: Bracket;
@@ -0,0 +1,16 @@
+import Position from "./position";
+import Scope from "./scope";
+
+export default class ScopeNode {
+    public readonly scope: Scope;
+    public left: ScopeNode | undefined;
+    public right: ScopeNode | undefined;
+    public height = 1;
+    // Furthest end of any scope in this subtree
+    public maxEnd: Position;
+
+    constructor(scope: Scope) {
+        this.scope = scope;
+        this.maxEnd = scope.range.end;
+    }
+}
@@ -0,0 +1,198 @@
+import Position from "./position";
+import Scope from "./scope";
+import ScopeNode from "./scopeNode";
+
+// Balanced interval tree of scopes, ordered by scope start
+export default class ScopeTree {
+    private root: ScopeNode | undefined;
+
+    public add(scope: Scope) {
+        this.root = this.insert(this.root, scope);
+    }
+
+    public remove(scope: Scope) {
+        this.root = this.delete(this.root, scope);
+    }
+
+    // Return the innermost scope which contains the position, i.e. the containing scope that starts last
+    public getScope(position: Position): Scope | undefined {
+        return this.find(this.root, position);
+    }
+
+    // Return the scope which starts last before the position
+    public getScopeBefore(position: Position): Scope | undefined {
+        let scope: Scope | undefined;
+        let node = this.root;
+        while (node !== undefined) {
+            if (node.scope.range.start.isBefore(position)) {
+                scope = node.scope;
+                node = node.right;
+            }
+            else {
+                node = node.left;
+            }
+        }
+
+        return scope;
+    }
+
+    // Return the scope which starts first on or after the position
+    public getScopeAfter(position: Position): Scope | undefined {
+        let scope: Scope | undefined;
+        let node = this.root;
+        while (node !== undefined) {
+            if (node.scope.range.start.isBefore(position)) {
+                node = node.right;
+            }
+            else {
+                scope = node.scope;
+                node = node.left;
+            }
+        }
+
+        return scope;
+    }
+
+    private find(node: ScopeNode | undefined, position: Position): Scope | undefined {
+        if (node === undefined || node.maxEnd.isBefore(position)) {
+            return;
+        }
+
+        if (node.scope.range.start.isAfter(position)) {
+            return this.find(node.left, position);
+        }
+
+        const innerScope = this.find(node.right, position);
+        if (innerScope) {
+            return innerScope;
+        }
+
+        if (node.scope.range.contains(position)) {
+            return node.scope;
+        }
+
+        return this.find(node.left, position);
+    }
+
+    private compare(a: Scope, b: Scope) {
+        const startComparison = a.range.start.compareTo(b.range.start);
+        if (startComparison !== 0) {
+            return startComparison;
+        }
+
+        return b.range.end.compareTo(a.range.end);
+    }
+
+    private insert(node: ScopeNode | undefined, scope: Scope): ScopeNode {
+        if (node === undefined) {
+            return new ScopeNode(scope);
+        }
+
+        if (this.compare(scope, node.scope) < 0) {
+            node.left = this.insert(node.left, scope);
+        }
+        else {
+            node.right = this.insert(node.right, scope);
+        }
+
+        return this.balance(node);
+    }
+
+    private delete(node: ScopeNode | undefined, scope: Scope): ScopeNode | undefined {
+        if (node === undefined) {
+            return;
+        }
+
+        const comparison = this.compare(scope, node.scope);
+        if (comparison < 0) {
+            node.left = this.delete(node.left, scope);
+        }
+        else if (comparison > 0) {
+            node.right = this.delete(node.right, scope);
+        }
+        else if (node.scope !== scope) {
+            // Rotations can move scopes with the same range to either side
+            node.left = this.delete(node.left, scope);
+            node.right = this.delete(node.right, scope);
+        }
+        else {
+            if (node.left === undefined) {
+                return node.right;
+            }
+
+            if (node.right === undefined) {
+                return node.left;
+            }
+
+            let successor = node.right;
+            while (successor.left !== undefined) {
+                successor = successor.left;
+            }
+
+            const replacement = new ScopeNode(successor.scope);
+            replacement.left = node.left;
+            replacement.right = this.delete(node.right, successor.scope);
+            return this.balance(replacement);
+        }
+
+        return this.balance(node);
+    }
+
+    private height(node: ScopeNode | undefined) {
+        return node === undefined ? 0 : node.height;
+    }
+
+    private update(node: ScopeNode) {
+        node.height = Math.max(this.height(node.left), this.height(node.right)) + 1;
+        node.maxEnd = node.scope.range.end;
+
+        if (node.left !== undefined && node.left.maxEnd.isAfter(node.maxEnd)) {
+            node.maxEnd = node.left.maxEnd;
+        }
+
+        if (node.right !== undefined && node.right.maxEnd.isAfter(node.maxEnd)) {
+            node.maxEnd = node.right.maxEnd;
+        }
+    }
+
+    private rotateLeft(node: ScopeNode): ScopeNode {
+        const right = node.right as ScopeNode;
+        node.right = right.left;
+        right.left = node;
+        this.update(node);
+        this.update(right);
+        return right;
+    }
+
+    private rotateRight(node: ScopeNode): ScopeNode {
+        const left = node.left as ScopeNode;
+        node.left = left.right;
+        left.right = node;
+        this.update(node);
+        this.update(left);
+        return left;
+    }
+
+    private balance(node: ScopeNode): ScopeNode {
+        this.update(node);
+        const balance = this.height(node.left) - this.height(node.right);
+
+        if (balance > 1) {
+            const left = node.left as ScopeNode;
+            if (this.height(left.left) < this.height(left.right)) {
+                node.left = this.rotateLeft(left);
+            }
+            return this.rotateRight(node);
+        }
+
+        if (balance < -1) {
+            const right = node.right as ScopeNode;
+            if (this.height(right.right) < this.height(right.left)) {
+                node.right = this.rotateRight(right);
+            }
+            return this.rotateLeft(node);
+        }
+
+        return node;
+    }
+}
@@ -0,0 +1,7 @@
+import ISettingArray from "./ISettingArray";
+import ISettingObject from "./ISettingObject";
+
+// A value of the settings, which can be of any JSON type until it is checked, e.g. by SettingValues.isObject
+type SettingValue = string | number | boolean | ISettingObject | ISettingArray | null | undefined;
+
+export default SettingValue;
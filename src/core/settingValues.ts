@@ -0,0 +1,21 @@
+import ISettingObject from "./ISettingObject";
+import SettingValue from "./settingValue";
+
+// Type guards for the values of the settings
+export default class SettingValues {
+    public static isObject(value: SettingValue): value is ISettingObject {
+        return typeof value === "object" && value !== null && !Array.isArray(value);
+    }
+
+    public static isArray(value: SettingValue): value is SettingValue[] {
+        return Array.isArray(value);
+    }
+
+    public static isStringArray(value: SettingValue): value is string[] {
+        return Array.isArray(value) && value.every((e) => typeof e === "string");
+    }
+
+    public static isNumberArray(value: SettingValue): value is number[] {
+        return Array.isArray(value) && value.every((e) => typeof e === "number");
+    }
+}
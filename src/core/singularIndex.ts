@@ -0,0 +1,101 @@
+import Bracket from "./bracket";
+import BracketPair from "./bracketPair";
+import ColorIndexes from "./IColorIndexes";
+import LineTranslation from "./lineTranslation";
+import Range from "./range";
+import Scope from "./scope";
+
+export default class SingularIndex implements ColorIndexes {
+    private openBrackets: Bracket[] = [];
+    private previousOpenBracketColorIndex: number = -1;
+    private bracketScopes: Scope[] = [];
+
+    constructor(
+        previousState?: {
+            currentOpenBracketColorIndexes: Bracket[],
+            previousOpenBracketColorIndex: number,
+            bracketScopes?: Scope[],
+        }) {
+
+        if (previousState !== undefined) {
+            this.openBrackets = previousState.currentOpenBracketColorIndexes;
+            this.previousOpenBracketColorIndex = previousState.previousOpenBracketColorIndex;
+
+            if (previousState.bracketScopes !== undefined) {
+                this.bracketScopes = previousState.bracketScopes;
+            }
+        }
+    }
+
+    public getLastOpenBracket(bracketPair: BracketPair): Bracket | undefined {
+        for (let i = this.openBrackets.length - 1; i >= 0; i--) {
+            if (this.openBrackets[i].character === bracketPair.openCharacter) {
+                return this.openBrackets[i];
+            }
+        }
+    }
+
+    // Open brackets in the order they were opened
+    public getUnclosedBrackets(): Bracket[] {
+        return this.openBrackets.slice();
+    }
+
+    public getPreviousIndex(bracketPair: BracketPair): number {
+        return this.previousOpenBracketColorIndex;
+    }
+
+    public setCurrent(bracketPair: BracketPair, range: Range, colorIndex: number) {
+        this.openBrackets.push(new Bracket(bracketPair.openCharacter, range, colorIndex));
+        this.previousOpenBracketColorIndex = colorIndex;
+    }
+
+    public getCurrentLength(bracketPair: BracketPair): number {
+        return this.openBrackets.length;
+    }
+
+    public getCurrentColorIndex(bracketPair: BracketPair, range: Range): number | undefined {
+        const openBracket = this.openBrackets.pop();
+        if (openBracket) {
+            const closeBracket = new Bracket(bracketPair.closeCharacter, range, openBracket.colorIndex);
+            const scopeRange = new Range(openBracket.range.start, range.end);
+            this.bracketScopes.push(
+                new Scope(scopeRange, bracketPair.colors[openBracket.colorIndex], openBracket, closeBracket),
+            );
+            return openBracket.colorIndex;
+        }
+    }
+
+    // Scopes closed since this index was cloned
+    public getScopes(): Scope[] {
+        return this.bracketScopes;
+    }
+
+    // Compare the bracket state, other is translated first. Found scopes are not compared
+    public isEquivalent(other: ColorIndexes, translation: LineTranslation): boolean {
+        if (!(other instanceof SingularIndex) ||
+            this.previousOpenBracketColorIndex !== other.previousOpenBracketColorIndex ||
+            this.openBrackets.length !== other.openBrackets.length) {
+            return false;
+        }
+
+        return this.openBrackets.every((bracket, index) =>
+            translation.isEquivalent(bracket, other.openBrackets[index]));
+    }
+
+    public translate(translation: LineTranslation) {
+        return new SingularIndex(
+            {
+                bracketScopes: this.bracketScopes.map((scope) => translation.scope(scope)),
+                currentOpenBracketColorIndexes: this.openBrackets.map((bracket) => translation.bracket(bracket)),
+                previousOpenBracketColorIndex: this.previousOpenBracketColorIndex,
+            });
+    }
+
+    public clone() {
+        return new SingularIndex(
+            {
+                currentOpenBracketColorIndexes: this.openBrackets.slice(),
+                previousOpenBracketColorIndex: this.previousOpenBracketColorIndex,
+            });
+    }
+}
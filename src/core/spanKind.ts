@@ -0,0 +1,13 @@
+// How brackets are matched in a span of text
+enum SpanKind {
+    // Brackets which are not words, e.g. "(" in punctuation
+    Bracket,
+    // Keyword brackets on word boundaries, e.g. begin/end
+    Keyword,
+    // Operators which consist of contextual brackets, e.g. "<" of generics
+    Contextual,
+    // Brackets of a scanned comment, string or regular expression, matched in their own nesting context
+    Isolated,
+}
+
+export default SpanKind;
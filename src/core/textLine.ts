@@ -0,0 +1,164 @@
+import AnalyzerSettings from "./analyzerSettings";
+import Bracket from "./bracket";
+import BracketPair from "./bracketPair";
+import FoundBracket from "./foundBracket";
+import LineState from "./lineState";
+import LineTranslation from "./lineTranslation";
+import Range from "./range";
+import Scope from "./scope";
+
+export default class TextLine {
+    public colorRanges = new Map<string, Range[]>();
+    // Ranges of paired brackets by their nesting depth, 0 is the outermost pair
+    public depthRanges = new Map<number, Range[]>();
+    // Closing brackets without an open bracket to close
+    public readonly orphans: FoundBracket[] = [];
+    public readonly index: number;
+    private lineState: LineState;
+    private readonly settings: AnalyzerSettings;
+    private readonly content: string;
+
+    constructor(content: string, settings: AnalyzerSettings, index: number, lineState?: LineState) {
+        this.settings = settings;
+        this.content = content;
+        this.index = index;
+        if (lineState !== undefined) {
+            this.lineState = lineState;
+        }
+        else {
+            this.lineState = new LineState(settings);
+        }
+    }
+
+    // Return a copy of the line while mantaining bracket state. colorRanges is not mantained.
+    public copyMultilineContext() {
+        return this.lineState.copyMultilineContext();
+    }
+
+    public addBracket(bracket: FoundBracket) {
+        // A bracket of several pairs belongs to the pair with the last open bracket,
+        // so a close bracket shared by several pairs closes the last open bracket, e.g. "end" of "def" and "do"
+        let bracketPair: BracketPair | undefined;
+        let lastOpenBracket: Bracket | undefined;
+        for (const pair of this.settings.getBracketPairs(bracket.character)) {
+            if (!(pair.openCharacter === bracket.character && bracket.isOpen !== false) &&
+                !(pair.closeCharacter === bracket.character && bracket.isOpen !== true)) {
+                continue;
+            }
+
+            const openBracket = this.lineState.getLastOpenBracket(pair);
+            if (bracketPair === undefined || (openBracket !== undefined &&
+                (lastOpenBracket === undefined || openBracket.range.start.isAfter(lastOpenBracket.range.start)))) {
+                bracketPair = pair;
+                lastOpenBracket = openBracket;
+            }
+        }
+
+        if (bracketPair === undefined) {
+            return;
+        }
+
+        if (bracketPair.openCharacter === bracket.character && bracket.isOpen !== false) {
+            this.addDepthRange(this.lineState.getDepth(bracketPair), bracket.range);
+            this.addColorRange(this.lineState.getOpenBracketColor(bracketPair, bracket.range), bracket.range);
+            return;
+        }
+
+        // A contextual close bracket which does not close the last open bracket is an operator, e.g. "a > b"
+        if (bracket.isOpen === false && (lastOpenBracket === undefined || !this.isLastOpenBracket(lastOpenBracket))) {
+            return;
+        }
+
+        if (!this.lineState.hasOpenBracket(bracketPair)) {
+            this.orphans.push(bracket);
+        }
+        else {
+            this.addDepthRange(this.lineState.getDepth(bracketPair) - 1, bracket.range);
+        }
+
+        this.addColorRange(this.lineState.getCloseBracketColor(bracketPair, bracket.range), bracket.range);
+    }
+
+    // Add the colors and orphans of a line parsed in another nesting context, its bracket state is not kept
+    public merge(line: TextLine, includeOrphans: boolean) {
+        for (const [color, ranges] of line.colorRanges) {
+            const colorRanges = this.colorRanges.get(color);
+            if (colorRanges !== undefined) {
+                colorRanges.push(...ranges);
+            }
+            else {
+                this.colorRanges.set(color, ranges.slice());
+            }
+        }
+
+        for (const [depth, ranges] of line.depthRanges) {
+            ranges.forEach((range) => this.addDepthRange(depth, range));
+        }
+
+        if (includeOrphans) {
+            this.orphans.push(...line.orphans);
+        }
+    }
+
+    // Compare the bracket state at the end of both lines, other is translated first
+    public isEquivalent(other: TextLine, translation: LineTranslation): boolean {
+        return this.lineState.isEquivalent(other.lineState, translation);
+    }
+
+    // Return a copy of the line moved to another line number, including colorRanges and found scopes
+    public translate(translation: LineTranslation): TextLine {
+        const line = new TextLine(
+            this.content, this.settings, translation.line(this.index), this.lineState.translate(translation));
+
+        for (const [color, ranges] of this.colorRanges) {
+            line.colorRanges.set(color, ranges.map((range) => translation.range(range)));
+        }
+
+        for (const [depth, ranges] of this.depthRanges) {
+            line.depthRanges.set(depth, ranges.map((range) => translation.range(range)));
+        }
+
+        this.orphans.forEach((orphan) => {
+            line.orphans.push(new FoundBracket(translation.range(orphan.range), orphan.character));
+        });
+
+        return line;
+    }
+
+    // Brackets which are still open at the end of this line
+    public getUnclosedBrackets(): Bracket[] {
+        return this.lineState.getUnclosedBrackets();
+    }
+
+    // Scopes which are closed on this line
+    public getScopes(): Scope[] {
+        return this.lineState.getScopes();
+    }
+
+    private isLastOpenBracket(openBracket: Bracket): boolean {
+        return this.settings.bracketPairs.every((bracketPair) => {
+            const other = this.lineState.getLastOpenBracket(bracketPair);
+            return other === undefined || !other.range.start.isAfter(openBracket.range.start);
+        });
+    }
+
+    private addColorRange(color: string, range: Range) {
+        const colorRanges = this.colorRanges.get(color);
+        if (colorRanges !== undefined) {
+            colorRanges.push(range);
+        }
+        else {
+            this.colorRanges.set(color, [range]);
+        }
+    }
+
+    private addDepthRange(depth: number, range: Range) {
+        const depthRanges = this.depthRanges.get(depth);
+        if (depthRanges !== undefined) {
+            depthRanges.push(range);
+        }
+        else {
+            this.depthRanges.set(depth, [range]);
+        }
+    }
+}
@@ -0,0 +1,137 @@
+import { IGrammar, StackElement } from "vscode-textmate";
+import AnalyzerSettings from "./analyzerSettings";
+import Checkpoint from "./checkpoint";
+import ITokenizer from "./ITokenizer";
+import LanguageRegion from "./languageRegion";
+import Position from "./position";
+import SpanKind from "./spanKind";
+import TokenSpan from "./tokenSpan";
+
+// Tokenizes with a TextMate grammar, the same scopes the editor highlights with
+// Every line is a checkpoint, in the rule stack at the end of the previous line
+export default class TextMateTokenizer implements ITokenizer {
+    private readonly grammar: IGrammar;
+    private readonly settings: AnalyzerSettings;
+
+    constructor(grammar: IGrammar, settings: AnalyzerSettings) {
+        this.grammar = grammar;
+        this.settings = settings;
+    }
+
+    public tokenize(text: string, languageID: string, start: Position, state?: StackElement) {
+        const spans: TokenSpan[] = [];
+        const checkpoints: Checkpoint[] = [];
+        const lines = text.split("\n");
+        let ruleStack: StackElement | null = state !== undefined ? state : null;
+
+        // A scanned comment or string is split into tokens by its scopes, consecutive tokens in the same scopes are
+        // one span, block comments and strings continue on the next line
+        let isolated: { start: Position, end: Position, lines: string[], scopes: string } | undefined;
+        const addIsolatedSpan = () => {
+            if (isolated !== undefined) {
+                spans.push(new TokenSpan(isolated.start, isolated.lines.join("\n"), SpanKind.Isolated, languageID));
+                isolated = undefined;
+            }
+        };
+
+        lines.forEach((lineText, index) => {
+            const lineIndex = start.line + index;
+            const charIndex = index === 0 ? start.character : 0;
+            // The text after the last line break is empty, unless the text ends inside a line
+            if (index === lines.length - 1 && lineText === "") {
+                return;
+            }
+
+            lineText = lineText.replace(/\r$/, "");
+            const result = this.grammar.tokenizeLine(lineText, ruleStack);
+            result.tokens.forEach((token) => {
+                const kind = this.getKind(token.scopes, languageID);
+                const content = lineText.substring(token.startIndex, token.endIndex);
+                const tokenStart = new Position(lineIndex, charIndex + token.startIndex);
+                const isContinued = isolated !== undefined && isolated.end.isEqual(tokenStart);
+
+                if (kind !== SpanKind.Isolated) {
+                    if (kind !== undefined && content !== "") {
+                        spans.push(new TokenSpan(tokenStart, content, kind, languageID));
+                    }
+
+                    // Code embedded in a scanned string is blanked out of its span, e.g. #{} in Ruby
+                    if (isolated === undefined || !isContinued ||
+                        !(token.scopes.join(" ") + " ").startsWith(isolated.scopes + " ")) {
+                        addIsolatedSpan();
+                        return;
+                    }
+                }
+                else {
+                    // The code of a Python f-string is not inside its string scope
+                    const scopesIndex = token.scopes.findIndex((e) => /^(comment|string|meta\.fstring)(\.|$)/.test(e));
+                    const scopes = token.scopes.slice(0, scopesIndex + 1).join(" ");
+                    if (isolated === undefined || !isContinued || isolated.scopes !== scopes) {
+                        addIsolatedSpan();
+                        isolated = { end: tokenStart, lines: [""], scopes, start: tokenStart };
+                    }
+                }
+
+                if (isolated.end.line !== isolated.start.line + isolated.lines.length - 1) {
+                    isolated.lines.push("");
+                }
+
+                isolated.lines[isolated.lines.length - 1] +=
+                    kind === SpanKind.Isolated ? content : content.replace(/./g, " ");
+                isolated.end = token.endIndex >= lineText.length && !/(^| )comment\.line(\.|$)/.test(isolated.scopes) ?
+                    new Position(lineIndex + 1, 0) : new Position(lineIndex, charIndex + token.endIndex);
+            });
+
+            ruleStack = result.ruleStack;
+            if (index < lines.length - 1) {
+                checkpoints.push(new Checkpoint(lineIndex + 1, languageID, ruleStack));
+            }
+        });
+        addIsolatedSpan();
+
+        return { spans, checkpoints };
+    }
+
+    public isSameState(state?: StackElement, other?: StackElement) {
+        return state === other || (state !== undefined && other !== undefined && state.equals(other));
+    }
+
+    // Grammars include their embedded languages
+    public getRegions(text: string, languageID: string) {
+        return [new LanguageRegion(languageID, 0, text.length)];
+    }
+
+    // Comments, strings and escapes are skipped, unless the token is code embedded in them, e.g. ${} of a template
+    // string, {} of a Python f-string or $() of a shell string, or they are scanned
+    // Brackets are punctuation or braces, e.g. meta.brace.round of TypeScript, text in other scopes is skipped
+    private getKind(scopes: string[], languageID: string): SpanKind | undefined {
+        for (let i = scopes.length - 1; i >= 0; i--) {
+            if (/^(meta\.embedded|meta\.fstring|meta\.template\.expression|source|string\.interpolated\.dollar)(\.|$)/
+                .test(scopes[i])) {
+                break;
+            }
+
+            if (/^(comment|string|constant\.character\.escape)(\.|$)/.test(scopes[i])) {
+                // Escapes are part of the string they are in
+                const scope = scopes.slice(0, i + 1).reverse().find((e) => /^(comment|string)(\.|$)/.test(e));
+                const token = scope === undefined ? undefined : /^comment(\.|$)/.test(scope) ? "comment" :
+                    /^string\.regexp(\.|$)/.test(scope) ? "regex" : "string";
+                if (token !== undefined && this.settings.isScanned(token, languageID)) {
+                    return SpanKind.Isolated;
+                }
+                return;
+            }
+        }
+
+        const scope = scopes[scopes.length - 1];
+        if (/^keyword\.operator(\.|$)/.test(scope)) {
+            return SpanKind.Contextual;
+        }
+
+        if (/^keyword(\.|$)/.test(scope)) {
+            return SpanKind.Keyword;
+        }
+
+        return /^(punctuation|meta\.brace)(\.|$)/.test(scope) ? SpanKind.Bracket : undefined;
+    }
+}
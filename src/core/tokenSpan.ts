@@ -0,0 +1,17 @@
+import Position from "./position";
+import SpanKind from "./spanKind";
+
+export default class TokenSpan {
+    public readonly start: Position;
+    public readonly content: string;
+    public readonly kind: SpanKind;
+    public readonly languageID: string;
+
+    // A part of a token in which brackets are matched, languageID is the language the token was tokenized in
+    constructor(start: Position, content: string, kind: SpanKind, languageID: string) {
+        this.start = start;
+        this.content = content;
+        this.kind = kind;
+        this.languageID = languageID;
+    }
+}
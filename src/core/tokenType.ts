@@ -0,0 +1,12 @@
+// A Prism token type which is scanned for brackets
+export default class TokenType {
+    public readonly type: string;
+    // Elements of tokens with nested tokens which are scanned, negative indexes count from the end
+    // Undefined if the token is scanned as a string
+    public readonly indexes: number[] | undefined;
+
+    constructor(type: string, indexes?: number[]) {
+        this.type = type;
+        this.indexes = indexes;
+    }
+}
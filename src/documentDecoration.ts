@@ -1,150 +1,135 @@
-import * as Prism from "prismjs";
 import * as vscode from "vscode";
-import FoundBracket from "./foundBracket";
-import Scope from "./scope";
+import BracketDiagnostics from "./bracketDiagnostics";
+import BracketAnalyzer from "./core/bracketAnalyzer";
+import ITokenizer from "./core/ITokenizer";
+import Position from "./core/position";
+import Range from "./core/range";
+import Scope from "./core/scope";
+import NavigationTarget from "./navigationTarget";
 import Settings from "./settings";
-import TextLine from "./textLine";
 
 export default class DocumentDecoration {
     public readonly settings: Settings;
 
     private updateDecorationTimeout: NodeJS.Timer | null;
     private updateScopeTimeout: NodeJS.Timer | null;
-    // This program caches lines, and will only analyze linenumbers including or above a modified line
-    private lineToUpdateWhenTimeoutEnds = 0;
-    private lines: TextLine[] = [];
+    private readonly analyzer: BracketAnalyzer;
     private readonly document: vscode.TextDocument;
+    private readonly diagnostics: vscode.DiagnosticCollection;
     private nextScopeEvent: vscode.TextEditorSelectionChangeEvent | undefined;
     private previousScopeEvent: vscode.TextEditorSelectionChangeEvent | undefined;
-    private readonly largeFileRange: vscode.Range;
     private scopeDecorations: vscode.TextEditorDecorationType[] = [];
-    private scopeSelectionHistory: vscode.Selection[][] = [];
 
-    // What have I created..
-    private readonly stringStrategies = new Map<string,
-        (content: string, lineIndex: number, charIndex: number, positions: FoundBracket[]) =>
-            { lineIndex: number, charIndex: number }>();
-    private readonly stringOrTokenArrayStrategies = new Map<string,
-        (array: Array<string | Prism.Token>, lineIndex: number, charIndex: number, positions: FoundBracket[]) =>
-            { lineIndex: number, charIndex: number }>();
-
-    constructor(document: vscode.TextDocument, settings: Settings) {
+    // Documents are tokenized with Prism, unless another tokenizer is given
+    constructor(
+        document: vscode.TextDocument,
+        settings: Settings,
+        diagnostics: vscode.DiagnosticCollection,
+        tokenizer?: ITokenizer) {
         this.settings = settings;
         this.document = document;
-        this.largeFileRange = new vscode.Range(new vscode.Position(0, 0), new vscode.Position(5000, 0));
-
-        const basicStringMatch = (
-            content: string, lineIndex: number, charIndex: number, positions: FoundBracket[]) => {
-            return this.matchString(content as string, lineIndex, charIndex, positions);
-        };
-        // Match punctuation on all languages
-        this.stringStrategies.set("punctuation", basicStringMatch);
-
-        if (settings.prismLanguageID === "markup") {
-            this.stringStrategies.set("attr-name", basicStringMatch);
-        }
-
-        if (settings.prismLanguageID === "powershell") {
-            this.stringStrategies.set("namespace", basicStringMatch);
-        }
-
-        switch (settings.prismLanguageID) {
-            case "abap":
-            case "lua":
-            case "pascal":
-                this.stringStrategies.set("keyword", basicStringMatch);
-                break;
-            default: break;
-        }
-
-        if (settings.prismLanguageID === "markdown") {
-            const markdownUrl = (
-                array: Array<string | Prism.Token>,
-                lineIndex: number,
-                charIndex: number,
-                positions: FoundBracket[]) => {
-                // Input: ![Disabled](images/forceUniqueOpeningColorDisabled.png "forceUniqueOpeningColor Disabled")
-                // [0]: ![Disabled](images/forceUniqueOpeningColorDisabled.png
-                // [1]: "forceUniqueOpeningColor Disabled"
-                // [2]: )
-                return this.matchStringOrTokenArray(
-                    new Set([0, array.length - 1]), array, lineIndex, charIndex, positions);
-            };
-            this.stringOrTokenArrayStrategies.set("url", markdownUrl);
-        }
+        this.diagnostics = diagnostics;
+        this.analyzer = new BracketAnalyzer(settings.analyzerSettings, tokenizer);
     }
 
     public dispose() {
         this.settings.dispose();
+        this.diagnostics.delete(this.document.uri);
         this.disposeScopeDecorations();
     }
 
     public onDidChangeTextDocument(contentChanges: vscode.TextDocumentContentChangeEvent[]) {
-        this.updateLowestLineNumber(contentChanges);
+        // Changes are relative to the document before the event, mark the last one first so the others stay valid
+        const changes = contentChanges.slice().sort((a, b) => b.range.start.compareTo(a.range.start));
+        for (const change of changes) {
+            const addedLineCount = change.text.split("\n").length - 1;
+            const removedLineCount = change.range.end.line - change.range.start.line;
+            this.analyzer.markDirty(change.range.start.line, change.range.end.line, addedLineCount - removedLineCount);
+        }
+
         this.triggerUpdateDecorations();
     }
 
-    public expandBracketSelection(editor: vscode.TextEditor) {
-        const newSelections: vscode.Selection[] = [];
+    public onDidChangeVisibleRanges(editor: vscode.TextEditor) {
+        const parsedLineCount = this.analyzer.getParsedLineCount();
+        if (parsedLineCount >= this.document.lineCount) {
+            return;
+        }
+
+        // Extend the parse lazily, once the editor scrolls into the second half of the look ahead
+        const furthestVisibleLine = this.getFurthestVisibleLine([editor]);
+        if (furthestVisibleLine + this.analyzer.lookAheadLineCount / 2 >= parsedLineCount) {
+            this.triggerUpdateDecorations();
+        }
+    }
 
-        editor.selections.forEach((selection) => {
-            let selections: vscode.Selection[] = [];
+    // Every scope around a position, from the innermost to the outermost, first without and then with its brackets
+    public provideSelectionRanges(positions: vscode.Position[]): vscode.SelectionRange[] {
+        this.updateDecorationsNow(Math.max(...positions.map((e) => e.line + 1)));
 
-            if (this.scopeSelectionHistory.length !== 0) {
-                selections = this.scopeSelectionHistory[this.scopeSelectionHistory.length - 1];
-            }
-            else {
-                this.scopeSelectionHistory.push(editor.selections);
+        return positions.map((position) => {
+            const scopes: Scope[] = [];
+            for (let scope = this.getScope(position); scope !== undefined;
+                scope = this.analyzer.getParentScope(scope)) {
+                scopes.push(scope);
             }
 
-            const nextPos = this.document.validatePosition(selection.active.translate(0, 1));
-            const nextScope = this.getScope(nextPos);
-            if (nextScope) {
-                const start = this.document.validatePosition(nextScope.open.range.start.translate(0, 1));
-                const end = this.document.validatePosition(nextScope.close.range.end.translate(0, -1));
-                newSelections.push(new vscode.Selection(start, end));
+            let selectionRange: vscode.SelectionRange | undefined;
+            for (const scope of scopes.reverse()) {
+                const ranges = [
+                    this.toRange(new Range(scope.open.range.start, scope.close.range.end)),
+                    this.toRange(new Range(scope.open.range.end, scope.close.range.start)),
+                ];
+
+                for (const range of ranges) {
+                    // Nested brackets without anything between them have the same range, e.g. "(( ))"
+                    if (selectionRange === undefined || !selectionRange.range.isEqual(range)) {
+                        selectionRange = new vscode.SelectionRange(range, selectionRange);
+                    }
+                }
             }
-        });
 
-        if (newSelections.length > 0) {
-            this.scopeSelectionHistory.push(newSelections);
-
-            editor.selections = newSelections;
-        }
+            return selectionRange !== undefined ?
+                selectionRange : new vscode.SelectionRange(new vscode.Range(position, position));
+        });
     }
 
-    public undoBracketSelection(editor: vscode.TextEditor) {
-        this.scopeSelectionHistory.pop();
+    // Multi-line scopes of the folding pairs, the line of the close bracket stays visible
+    public provideFoldingRanges(): vscode.FoldingRange[] {
+        // The whole document is parsed, folding ranges are only requested again after a change
+        this.updateDecorationsNow(this.document.lineCount);
 
-        if (this.scopeSelectionHistory.length === 0) {
-            return;
-        }
+        const minimumLineSpan = this.settings.foldingMinimumLineSpan;
+        const foldingPairs = this.settings.foldingPairs;
 
-        const scopes = this.scopeSelectionHistory[this.scopeSelectionHistory.length - 1];
-        editor.selections = scopes;
+        return this.analyzer.getScopes()
+            .filter((scope) => scope.close.range.start.line - scope.open.range.start.line >= minimumLineSpan)
+            .filter((scope) => foldingPairs.length === 0 || foldingPairs.some((pair) =>
+                pair[0] === scope.open.character && pair[1] === scope.close.character))
+            .map((scope) => new vscode.FoldingRange(scope.open.range.start.line, scope.close.range.start.line - 1));
     }
 
-    // Lines are stored in an array, if line is requested outside of array bounds
-    // add emptys lines until array is correctly sized
-    public getLine(index: number, document: vscode.TextDocument): TextLine {
-        if (index < this.lines.length) {
-            return this.lines[index];
-        }
-        else {
-            if (this.lines.length === 0) {
-                this.lines.push(new TextLine(document.lineAt(0).text, this.settings, 0));
-            }
+    // Move every cursor to the target of its own position, cursors without a target are kept
+    public goTo(editor: vscode.TextEditor, target: NavigationTarget) {
+        this.updateDecorationsNow(Math.max(...editor.selections.map((e) => e.active.line + 1)));
 
-            for (let i = this.lines.length; i <= index; i++) {
-                const previousLine = this.lines[this.lines.length - 1];
-                const newLine =
-                    new TextLine(document.lineAt(i).text, this.settings, i, previousLine.copyMultilineContext());
+        let moved = false;
 
-                this.lines.push(newLine);
+        const newSelections = editor.selections.map((selection) => {
+            const active = selection.active;
+            const position = this.getNavigationTarget(new Position(active.line, active.character), target);
+            if (position === undefined) {
+                return selection;
             }
 
-            const lineToReturn = this.lines[this.lines.length - 1];
-            return lineToReturn;
+            moved = true;
+            const newPosition = this.document.validatePosition(this.toPosition(position));
+            return new vscode.Selection(newPosition, newPosition);
+        });
+
+        if (moved) {
+            editor.selections = newSelections;
+            editor.revealRange(new vscode.Range(newSelections[0].active, newSelections[0].active));
         }
     }
 
@@ -213,11 +198,14 @@ export default class DocumentDecoration {
         });
 
         for (const scope of scopes) {
+            const openRange = this.toRange(scope.open.range);
+            const closeRange = this.toRange(scope.close.range);
+
             {
                 if (this.settings.highlightActiveScope) {
                     const decoration =
                         this.settings.createScopeBracketDecorations(scope.color);
-                    event.textEditor.setDecorations(decoration, [scope.open.range, scope.close.range]);
+                    event.textEditor.setDecorations(decoration, [openRange, closeRange]);
                     this.scopeDecorations.push(decoration);
                 }
             }
@@ -226,17 +214,17 @@ export default class DocumentDecoration {
                 if (scope.open.range.start.line === scope.close.range.start.line) {
                     const decoration = this.settings.createGutterBracketDecorations
                         (scope.color, scope.open.character + scope.close.character);
-                    event.textEditor.setDecorations(decoration, [scope.open.range, scope.close.range]);
+                    event.textEditor.setDecorations(decoration, [openRange, closeRange]);
                     this.scopeDecorations.push(decoration);
                 }
                 else {
                     const decorationOpen =
                         this.settings.createGutterBracketDecorations(scope.color, scope.open.character);
-                    event.textEditor.setDecorations(decorationOpen, [scope.open.range]);
+                    event.textEditor.setDecorations(decorationOpen, [openRange]);
                     this.scopeDecorations.push(decorationOpen);
                     const decorationClose =
                         this.settings.createGutterBracketDecorations(scope.color, scope.close.character);
-                    event.textEditor.setDecorations(decorationClose, [scope.close.range]);
+                    event.textEditor.setDecorations(decorationClose, [closeRange]);
                     this.scopeDecorations.push(decorationClose);
                 }
             }
@@ -244,12 +232,12 @@ export default class DocumentDecoration {
             if (this.settings.showBracketsInRuler) {
                 const decoration =
                     this.settings.createRulerBracketDecorations(scope.color);
-                event.textEditor.setDecorations(decoration, [scope.open.range, scope.close.range]);
+                event.textEditor.setDecorations(decoration, [openRange, closeRange]);
                 this.scopeDecorations.push(decoration);
             }
 
             const lastWhiteSpaceCharacterIndex =
-                this.document.lineAt(scope.close.range.start).firstNonWhitespaceCharacterIndex;
+                this.document.lineAt(scope.close.range.start.line).firstNonWhitespaceCharacterIndex;
             const lastBracketStartIndex = scope.close.range.start.character;
             const lastBracketIsFirstCharacterOnLine = lastWhiteSpaceCharacterIndex === lastBracketStartIndex;
             let leftBorderColumn = Infinity;
@@ -299,7 +287,7 @@ export default class DocumentDecoration {
                 const overlineLineRanges: vscode.Range[] = [];
 
                 if (scope.open.range.start.line === scope.close.range.start.line) {
-                    underlineLineRanges.push(new vscode.Range(scope.open.range.start, scope.close.range.end));
+                    underlineLineRanges.push(new vscode.Range(openRange.start, closeRange.end));
                 }
                 else {
                     const startLine = this.document.lineAt(scope.open.range.start.line);
@@ -310,12 +298,12 @@ export default class DocumentDecoration {
                     const leftEndPos = new vscode.Position(scope.close.range.start.line,
                         this.calculateCharIndexFromColumn(endLine.text, leftBorderColumn, tabSize));
 
-                    underlineLineRanges.push(new vscode.Range(leftStartPos, scope.open.range.end));
+                    underlineLineRanges.push(new vscode.Range(leftStartPos, openRange.end));
                     if (lastBracketIsFirstCharacterOnLine) {
-                        overlineLineRanges.push(new vscode.Range(leftEndPos, scope.close.range.end));
+                        overlineLineRanges.push(new vscode.Range(leftEndPos, closeRange.end));
                     }
                     else {
-                        underlineLineRanges.push(new vscode.Range(leftEndPos, scope.close.range.end));
+                        underlineLineRanges.push(new vscode.Range(leftEndPos, closeRange.end));
                     }
                 }
 
@@ -408,187 +396,116 @@ export default class DocumentDecoration {
     }
 
     private getScope(position: vscode.Position): Scope | undefined {
-        for (let i = position.line; i < this.lines.length; i++) {
-            const scope = this.lines[i].getScope(position);
+        return this.analyzer.getScope(new Position(position.line, position.character));
+    }
 
-            if (scope) {
-                return scope;
+    private getNavigationTarget(position: Position, target: NavigationTarget): Position | undefined {
+        // Siblings and parents are relative to the bracket at the cursor, or else the scope around it
+        const bracketScope = this.analyzer.getBracketScope(position);
+        const enclosingScope = this.analyzer.getScope(position);
+        const scope = bracketScope !== undefined ? bracketScope : enclosingScope;
+
+        switch (target) {
+            case NavigationTarget.MatchingBracket: {
+                if (bracketScope !== undefined) {
+                    return bracketScope.open.range.contains(position) ?
+                        bracketScope.close.range.start : bracketScope.open.range.start;
+                }
+
+                return enclosingScope !== undefined ? enclosingScope.close.range.start : undefined;
             }
+            case NavigationTarget.ScopeStart: {
+                // Move to the parent scope when already at the start
+                if (enclosingScope !== undefined && enclosingScope.open.range.end.isEqual(position)) {
+                    const parent = this.analyzer.getParentScope(enclosingScope);
+                    return parent !== undefined ? parent.open.range.end : undefined;
+                }
+
+                return enclosingScope !== undefined ? enclosingScope.open.range.end : undefined;
+            }
+            case NavigationTarget.ScopeEnd: {
+                // Move to the parent scope when already at the end
+                if (enclosingScope !== undefined && enclosingScope.close.range.start.isEqual(position)) {
+                    const parent = this.analyzer.getParentScope(enclosingScope);
+                    return parent !== undefined ? parent.close.range.start : undefined;
+                }
+
+                return enclosingScope !== undefined ? enclosingScope.close.range.start : undefined;
+            }
+            case NavigationTarget.NextSiblingScope: {
+                const sibling = scope !== undefined ? this.analyzer.getNextSiblingScope(scope) : undefined;
+                return sibling !== undefined ? sibling.open.range.start : undefined;
+            }
+            case NavigationTarget.PreviousSiblingScope: {
+                const sibling = scope !== undefined ? this.analyzer.getPreviousSiblingScope(scope) : undefined;
+                return sibling !== undefined ? sibling.open.range.start : undefined;
+            }
+            case NavigationTarget.ParentScope: {
+                const parent = scope !== undefined ? this.analyzer.getParentScope(scope) : undefined;
+                return parent !== undefined ? parent.open.range.start : undefined;
+            }
+            default: throw new RangeError("Not implemented enum value");
         }
     }
 
-    private updateLowestLineNumber(contentChanges: vscode.TextDocumentContentChangeEvent[]) {
-        for (const contentChange of contentChanges) {
-            this.lineToUpdateWhenTimeoutEnds =
-                Math.min(this.lineToUpdateWhenTimeoutEnds, contentChange.range.start.line);
+    // Providers must answer for the current text, so a pending update is applied right away
+    private updateDecorationsNow(minimumLineCount: number) {
+        if (this.updateDecorationTimeout) {
+            clearTimeout(this.updateDecorationTimeout);
+            this.updateDecorationTimeout = null;
         }
+        else if (this.analyzer.getParsedLineCount() >= Math.min(minimumLineCount, this.document.lineCount)) {
+            return;
+        }
+
+        this.updateDecorations(minimumLineCount);
     }
 
-    private updateDecorations() {
+    private updateDecorations(minimumLineCount = 0) {
         if (this.settings.isDisposed) {
             return;
         }
 
         // One document may be shared by multiple editors (side by side view)
+        // Providers can also ask for documents without a visible editor, these are parsed but not colored
         const editors: vscode.TextEditor[] =
             vscode.window.visibleTextEditors.filter((e) => this.document === e.document);
 
-        if (editors.length === 0) {
-            console.warn("No editors associated with document: " + this.document.fileName);
-            return;
-        }
-
         // console.time("updateDecorations");
 
-        const lineNumber = this.lineToUpdateWhenTimeoutEnds;
-        const amountToRemove = this.lines.length - lineNumber;
-
-        // Remove cached lines that need to be updated
-        this.lines.splice(lineNumber, amountToRemove);
+        // Lines are only parsed up to the furthest visible line of any editor, plus the look ahead
+        const lineCount = Math.min(this.document.lineCount, Math.max(this.analyzer.getParsedLineCount(),
+            Math.max(minimumLineCount, this.getFurthestVisibleLine(editors) + 1) + this.analyzer.lookAheadLineCount));
 
-        const languageID = this.settings.prismLanguageID;
-
-        const text = this.document.getText(this.largeFileRange);
-        let tokenized: Array<string | Prism.Token>;
-        try {
-            tokenized = Prism.tokenize(text, Prism.languages[languageID]);
-            if (!tokenized) {
-                console.log("Could not tokenize document: " + this.document.fileName);
-                return;
-            }
-        }
-        catch (err) {
-            console.warn(err);
+        if (!this.analyzer.update(this.document.getText(), lineCount)) {
             return;
         }
 
-        const positions: FoundBracket[] = [];
-        this.parseTokenOrStringArray(tokenized, 0, 0, positions);
-
-        positions.forEach((element) => {
-            const currentLine = this.getLine(element.range.start.line, this.document);
-            currentLine.addBracket(element);
-        });
-
-        this.colorDecorations(editors);
-
-        // console.timeEnd("updateDecorations");
-    }
-
-    private parseTokenOrStringArray(
-        tokenized: Array<string | any>,
-        lineIndex: number,
-        charIndex: number,
-        positions: FoundBracket[]) {
-        tokenized.forEach((token) => {
-            if (token instanceof Prism.Token) {
-                const result = this.parseToken(token, lineIndex, charIndex, positions);
-                charIndex = result.charIndex;
-                lineIndex = result.lineIndex;
-            }
-            else {
-                const result = this.parseString(token, lineIndex, charIndex);
-                charIndex = result.charIndex;
-                lineIndex = result.lineIndex;
-            }
-        });
-        return { lineIndex, charIndex };
-    }
-
-    private parseString(content: string, lineIndex: number, charIndex: number) {
-        const split = content.split("\n");
-        if (split.length > 1) {
-            lineIndex += split.length - 1;
-            charIndex = split[split.length - 1].length;
-        }
-        else {
-            charIndex += content.length;
+        if (editors.length > 0) {
+            this.colorDecorations(editors);
         }
-        return { lineIndex, charIndex };
-    }
 
-    private parseToken(
-        token: Prism.Token,
-        lineIndex: number,
-        charIndex: number,
-        positions: FoundBracket[]): { lineIndex: number, charIndex: number } {
-        if (typeof token.content === "string") {
-            const strategy = this.stringStrategies.get(token.type);
-            if (strategy) {
-                return strategy(token.content, lineIndex, charIndex, positions);
-            }
-
-            return this.parseString(token.content, lineIndex, charIndex);
+        if (this.settings.diagnosticSeverity !== undefined) {
+            this.diagnostics.set(this.document.uri,
+                BracketDiagnostics.create(this.analyzer, this.document.uri, this.settings.diagnosticSeverity));
         }
-        else if (Array.isArray(token.content)) {
-            const strategy = this.stringOrTokenArrayStrategies.get(token.type);
-            if (strategy) {
-                return strategy(token.content, lineIndex, charIndex, positions);
-            }
 
-            return this.parseTokenOrStringArray(token.content, lineIndex, charIndex, positions);
-        }
-        else {
-            return this.parseToken(token.content, lineIndex, charIndex, positions);
-        }
+        // console.timeEnd("updateDecorations");
     }
 
-    private matchString(content: string, lineIndex: number, charIndex: number, positions: FoundBracket[]) {
-        if (lineIndex < this.lineToUpdateWhenTimeoutEnds) {
-            return this.parseString(content, lineIndex, charIndex);
-        }
-
-        this.settings.regexNonExact.lastIndex = 0;
-        let match: RegExpExecArray | null;
-        // tslint:disable-next-line:no-conditional-assignment
-        while ((match = this.settings.regexNonExact.exec(content)) !== null) {
-            const startPos = new vscode.Position(lineIndex, charIndex + match.index);
-            const endPos = startPos.translate(0, match[0].length);
-            positions.push(new FoundBracket(new vscode.Range(startPos, endPos), match[0]));
-        }
-
-        return this.parseString(content, lineIndex, charIndex);
-    }
+    private getFurthestVisibleLine(editors: vscode.TextEditor[]) {
+        let furthestVisibleLine = 0;
+        editors.forEach((editor) => {
+            editor.visibleRanges.forEach((range) => {
+                furthestVisibleLine = Math.max(furthestVisibleLine, range.end.line);
+            });
+        });
 
-    // Array can be Token or String. Indexes are which indexes should be parsed for brackets
-    private matchStringOrTokenArray(
-        indexes: Set<number>, array: Array<string | Prism.Token>,
-        lineIndex: number, charIndex: number, positions: FoundBracket[]) {
-        for (let i = 0; i < array.length; i++) {
-            const content = array[i];
-            let result: { lineIndex: number, charIndex: number };
-            if (indexes.has(i) && typeof content === "string") {
-                result = this.matchString(content, lineIndex, charIndex, positions);
-            }
-            else {
-                result = this.parseTokenOrStringArray([content], lineIndex, charIndex, positions);
-            }
-            lineIndex = result.lineIndex;
-            charIndex = result.charIndex;
-        }
-        return { lineIndex, charIndex };
+        return furthestVisibleLine;
     }
 
     private colorDecorations(editors: vscode.TextEditor[]) {
-        const colorMap = new Map<string, vscode.Range[]>();
-
-        // Reduce all the colors/ranges of the lines into a singular map
-        for (const line of this.lines) {
-            {
-                for (const [color, ranges] of line.colorRanges) {
-                    const existingRanges = colorMap.get(color);
-
-                    if (existingRanges !== undefined) {
-                        existingRanges.push(...ranges);
-                    }
-                    else {
-                        // Slice because we will be adding values to this array in the future,
-                        // but don't want to modify the original array which is stored per line
-                        colorMap.set(color, ranges.slice());
-                    }
-                }
-            }
-        }
+        const colorMap = this.analyzer.getColorRanges();
 
         for (const [color, decoration] of this.settings.bracketDecorations) {
             if (color === "") {
@@ -597,7 +514,7 @@ export default class DocumentDecoration {
             const ranges = colorMap.get(color);
             editors.forEach((editor) => {
                 if (ranges !== undefined) {
-                    editor.setDecorations(decoration, ranges);
+                    editor.setDecorations(decoration, ranges.map((range) => this.toRange(range)));
                 }
                 else {
                     // We must set non-used colors to an empty array
@@ -607,7 +524,29 @@ export default class DocumentDecoration {
             });
         }
 
-        this.lineToUpdateWhenTimeoutEnds = Infinity;
+        if (!this.settings.hasDepthCues) {
+            return;
+        }
+
+        const depthMap = this.analyzer.getDepthRanges();
+        for (const depth of depthMap.keys()) {
+            this.settings.getDepthDecoration(depth);
+        }
+
+        for (const [depth, decoration] of this.settings.depthDecorations) {
+            const ranges = depthMap.get(depth) || [];
+            editors.forEach((editor) => {
+                editor.setDecorations(decoration, ranges.map((range) => this.toRange(range)));
+            });
+        }
+    }
+
+    private toPosition(position: Position): vscode.Position {
+        return new vscode.Position(position.line, position.character);
+    }
+
+    private toRange(range: Range): vscode.Range {
+        return new vscode.Range(this.toPosition(range.start), this.toPosition(range.end));
     }
 
     private calculateColumnFromCharIndex(lineText: string, charIndex: number, tabSize: number): number {
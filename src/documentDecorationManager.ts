@@ -1,40 +1,116 @@
 import {
-    TextDocument, TextDocumentChangeEvent,
-    TextEditor, TextEditorSelectionChangeEvent, window,
+    Disposable, FoldingRange, languages, Position, SelectionRange, TextDocument, TextDocumentChangeEvent,
+    TextEditor, TextEditorSelectionChangeEvent, TextEditorVisibleRangesChangeEvent, window, workspace,
 } from "vscode";
+import ITokenizer from "./core/ITokenizer";
+import OverrideConfiguration from "./core/overrideConfiguration";
+import PrismLanguages from "./core/prismLanguages";
+import TextMateTokenizer from "./core/textMateTokenizer";
 import DocumentDecoration from "./documentDecoration";
 import GutterIconManager from "./gutterIconManager";
+import NavigationTarget from "./navigationTarget";
 import Settings from "./settings";
+import TextMateGrammars from "./textMateGrammars";
+import TokenizerBackend from "./tokenizerBackend";
 
 export default class DocumentDecorationManager {
-    private readonly loadLanguages = require("prismjs/components/index.js");
-    private readonly loadedLanguages = new Set<string>();
-    private readonly components = require("prismjs/components");
-    private readonly supportedLanguages = new Set(Object.keys(this.components.languages));
     private readonly gutterIcons = new GutterIconManager();
+    private readonly diagnostics = languages.createDiagnosticCollection("bracket-pair-colorizer");
     private showError = true;
+    private readonly shownWarnings = new Set<string>();
+    private isDisposed = false;
     private documents = new Map<string, DocumentDecoration>();
+    private foldingRangeProvider: Disposable | undefined;
+
+    constructor() {
+        // Only opted in languages, any folding provider replaces the indentation based folding of a language
+        const foldingLanguages = workspace.getConfiguration("bracketPairColorizer").get("foldingLanguages") as string[];
+
+        if (!Array.isArray(foldingLanguages)) {
+            window.showErrorMessage("BracketPair Settings: foldingLanguages is not an array");
+        }
+        else if (foldingLanguages.length > 0) {
+            this.foldingRangeProvider = languages.registerFoldingRangeProvider(foldingLanguages, {
+                provideFoldingRanges: (document) => this.provideFoldingRanges(document),
+            });
+        }
+    }
 
     public Dispose() {
+        this.isDisposed = true;
         this.documents.forEach((document, key) => {
             document.dispose();
         });
 
         this.gutterIcons.Dispose();
+        this.diagnostics.dispose();
+        PrismLanguages.clearRegexLanguages();
+
+        if (this.foldingRangeProvider !== undefined) {
+            this.foldingRangeProvider.dispose();
+        }
     }
 
-    public expandBracketSelection(editor: TextEditor) {
-        const documentDecoration = this.getDocumentDecorations(editor.document);
+    public provideSelectionRanges(document: TextDocument, positions: Position[]): SelectionRange[] | undefined {
+        const documentDecoration = this.getDocumentDecorations(document);
         if (documentDecoration) {
-            documentDecoration.expandBracketSelection(editor);
+            return documentDecoration.provideSelectionRanges(positions);
         }
     }
 
-    public undoBracketSelection(editor: TextEditor) {
+    public provideFoldingRanges(document: TextDocument): FoldingRange[] | undefined {
+        const documentDecoration = this.getDocumentDecorations(document);
+        if (documentDecoration) {
+            return documentDecoration.provideFoldingRanges();
+        }
+    }
+
+    public goTo(editor: TextEditor, target: NavigationTarget) {
         const documentDecoration = this.getDocumentDecorations(editor.document);
         if (documentDecoration) {
-            documentDecoration.undoBracketSelection(editor);
+            documentDecoration.goTo(editor, target);
+        }
+    }
+
+    // Show the tokenizer of the document, its TextMate grammar or its Prism languages and if they are loaded
+    public showLanguageMapping(editor: TextEditor) {
+        const document = editor.document;
+
+        let languages: string[];
+        let backend: TokenizerBackend;
+        try {
+            const configuration = this.getConfiguration(document);
+            backend = this.getTokenizerBackend(configuration);
+            languages = PrismLanguages.getPrismLanguageIDs(document.languageId, configuration);
+        } catch (error) {
+            window.showErrorMessage("BracketPair Settings: " + (error instanceof Error ? error.message : error));
+            return;
+        }
+
+        const describe = (languageID: string) => "\"" + languageID + "\" (" +
+            (!PrismLanguages.isSupported(languageID) ? "not supported by Prism.js" :
+                PrismLanguages.isLoaded(languageID) ? "loaded" : "not loaded") + ")";
+
+        let message = "Language \"" + document.languageId + "\" ";
+        if (backend === TokenizerBackend.TextMate && TextMateGrammars.getGrammar(document.languageId) !== undefined) {
+            message += "is tokenized by its TextMate grammar";
+        }
+        else if (PrismLanguages.isRegexLanguage(languages[0])) {
+            message += "is tokenized by the comment and string delimiters of regexLanguages";
+        }
+        else {
+            message += (backend === TokenizerBackend.TextMate ? "has no loaded TextMate grammar, so " : "") +
+                "is tokenized by Prism.js as " + describe(languages[0]);
+            if (languages.length > 1) {
+                message += ", with embedded " + languages.slice(1).map(describe).join(", ");
+            }
         }
+
+        if (!this.documents.has(document.uri.toString())) {
+            message += ". The document is not colorized";
+        }
+
+        window.showInformationMessage(message);
     }
 
     public updateDocument(document: TextDocument) {
@@ -78,6 +154,13 @@ export default class DocumentDecorationManager {
         }
     }
 
+    public onDidChangeVisibleRanges(event: TextEditorVisibleRangesChangeEvent) {
+        const documentDecoration = this.getDocumentDecorations(event.textEditor.document);
+        if (documentDecoration) {
+            documentDecoration.onDidChangeVisibleRanges(event.textEditor);
+        }
+    }
+
     public updateAllDocuments() {
         window.visibleTextEditors.forEach((editor) => {
             this.updateDocument(editor.document);
@@ -94,21 +177,46 @@ export default class DocumentDecorationManager {
 
         if (documentDecorations === undefined) {
             try {
-                const languages = this.getPrismLanguageID(document.languageId);
+                const configuration = this.getConfiguration(document);
+                const backend = this.getTokenizerBackend(configuration);
+
+                // The document is colorized once its grammar is loaded, Prism is used if it has none
+                if (backend === TokenizerBackend.TextMate && !TextMateGrammars.isLoaded(document.languageId)) {
+                    TextMateGrammars.loadGrammar(document.languageId).then(() => {
+                        if (!this.isDisposed && workspace.textDocuments.indexOf(document) !== -1) {
+                            this.updateDocument(document);
+                        }
+                    });
+                    return;
+                }
+
+                const grammar = backend === TokenizerBackend.TextMate ?
+                    TextMateGrammars.getGrammar(document.languageId) : undefined;
+                const languages = grammar !== undefined ?
+                    [document.languageId] : PrismLanguages.getPrismLanguageIDs(document.languageId, configuration);
                 const primaryLanguage = languages[0];
 
-                if (!this.supportedLanguages.has(primaryLanguage)) {
+                if (grammar === undefined && !PrismLanguages.isSupported(primaryLanguage)) {
                     return;
                 }
 
-                const settings = new Settings(primaryLanguage, this.gutterIcons, document.uri);
+                const embeddedLanguages = languages.slice(1).filter((e) => PrismLanguages.isSupported(e));
+                const settings = new Settings(
+                    primaryLanguage, this.gutterIcons, document.uri, embeddedLanguages, document.languageId);
 
                 if (settings.excludedLanguages.has(document.languageId)) {
                     return;
                 }
 
-                this.loadLanguageOnce(primaryLanguage);
-                documentDecorations = new DocumentDecoration(document, settings);
+                this.showWarnings(settings.analyzerSettings.warnings);
+
+                const tokenizer: ITokenizer | undefined =
+                    grammar !== undefined ? new TextMateTokenizer(grammar, settings.analyzerSettings) : undefined;
+                if (tokenizer === undefined) {
+                    PrismLanguages.loadLanguageOnce(primaryLanguage);
+                    embeddedLanguages.forEach((e) => PrismLanguages.loadLanguageOnce(e));
+                }
+                documentDecorations = new DocumentDecoration(document, settings, this.diagnostics, tokenizer);
                 this.documents.set(uri, documentDecorations);
             } catch (error) {
                 if (error instanceof Error) {
@@ -129,29 +237,30 @@ export default class DocumentDecorationManager {
         return documentDecorations;
     }
 
-    private getPrismLanguageID(languageID: string): string[] {
-        // Some VSCode language ids need to be mapped to match http://prismjs.com/#languages-list
-        switch (languageID) {
-            case "ahk": return ["autohotkey"];
-            case "bat": return ["batch"];
-            case "apex": return ["java"];
-            case "gradle": return ["groovy"];
-            case "html": return ["markup", "javascript"];
-            case "javascriptreact": return ["jsx"];
-            case "json5": return ["javascript"];
-            case "jsonc": return ["javascript"];
-            case "mathml": return ["markup"];
-            case "nunjucks": return ["twig"];
-            case "razor": return ["markup", "javascript", "csharp", "aspnet"]; // Workaround
-            case "scad": return ["swift"]; // Workaround
-            case "svg": return ["markup"];
-            case "systemverilog": return ["verilog"];
-            case "typescriptreact": return ["tsx"];
-            case "vb": return ["vbnet"];
-            case "vue": return ["markup", "javascript"];
-            case "xml": return ["markup"];
-            default: return [languageID];
+    // Settings are created for every document, each warning is only shown once
+    private showWarnings(warnings: string[]) {
+        const newWarnings = warnings.filter((e) => !this.shownWarnings.has(e));
+        if (newWarnings.length > 0) {
+            newWarnings.forEach((e) => this.shownWarnings.add(e));
+            window.showWarningMessage("BracketPair Settings: " + newWarnings.join("; "));
+        }
+    }
+
+    // Settings of the document, with the languageOverrides of its language and path applied
+    private getConfiguration(document: TextDocument): OverrideConfiguration {
+        return new OverrideConfiguration(workspace.getConfiguration("bracketPairColorizer", document.uri),
+            document.languageId, workspace.asRelativePath(document.uri));
+    }
+
+    // The tokenizer setting can be overridden for languages and files
+    private getTokenizerBackend(configuration: OverrideConfiguration): TokenizerBackend {
+        const backend = TokenizerBackend[configuration.get("tokenizer") as keyof typeof TokenizerBackend];
+
+        if (typeof backend !== "number") {
+            throw new Error("tokenizer enum could not be parsed");
         }
+
+        return backend;
     }
 
     private isValidDocument(document?: TextDocument): boolean {
@@ -161,12 +270,4 @@ export default class DocumentDecorationManager {
 
         return true;
     }
-
-    private loadLanguageOnce(prismLanguageId: string) {
-        if (this.loadedLanguages.has(prismLanguageId)) {
-            return;
-        }
-        this.loadLanguages([prismLanguageId]);
-        this.loadedLanguages.add(prismLanguageId);
-    }
 }
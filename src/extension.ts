@@ -1,22 +1,43 @@
-import { commands, ExtensionContext, window, workspace } from "vscode";
+import { commands, ExtensionContext, languages, window, workspace } from "vscode";
 import DocumentDecorationManager from "./documentDecorationManager";
+import NavigationTarget from "./navigationTarget";
 
 export function activate(context: ExtensionContext) {
     let documentDecorationManager = new DocumentDecorationManager();
 
     context.subscriptions.push(
-        commands.registerCommand("bracket-pair-colorizer.expandBracketSelection", () => {
+        // Kept for existing keybindings, the selection ranges come from the provider below
+        commands.registerCommand("bracket-pair-colorizer.expandBracketSelection", () =>
+            commands.executeCommand("editor.action.smartSelect.expand")),
+
+        commands.registerCommand("bracket-pair-colorizer.undoBracketSelection", () =>
+            commands.executeCommand("editor.action.smartSelect.shrink")),
+
+        commands.registerCommand("bracket-pair-colorizer.showLanguageMapping", () => {
             const editor = window.activeTextEditor;
             if (!editor) { return; }
-            documentDecorationManager.expandBracketSelection(editor);
+            documentDecorationManager.showLanguageMapping(editor);
         }),
 
-        commands.registerCommand("bracket-pair-colorizer.undoBracketSelection", () => {
-            const editor = window.activeTextEditor;
-            if (!editor) { return; }
-            documentDecorationManager.undoBracketSelection(editor);
+        languages.registerSelectionRangeProvider("*", {
+            provideSelectionRanges: (document, positions) =>
+                documentDecorationManager.provideSelectionRanges(document, positions),
         }),
 
+        ...[
+            ["bracket-pair-colorizer.jumpToMatchingBracket", NavigationTarget.MatchingBracket],
+            ["bracket-pair-colorizer.goToScopeStart", NavigationTarget.ScopeStart],
+            ["bracket-pair-colorizer.goToScopeEnd", NavigationTarget.ScopeEnd],
+            ["bracket-pair-colorizer.goToNextSiblingScope", NavigationTarget.NextSiblingScope],
+            ["bracket-pair-colorizer.goToPreviousSiblingScope", NavigationTarget.PreviousSiblingScope],
+            ["bracket-pair-colorizer.goToParentScope", NavigationTarget.ParentScope],
+        ].map(([command, target]: [string, NavigationTarget]) =>
+            commands.registerCommand(command, () => {
+                const editor = window.activeTextEditor;
+                if (!editor) { return; }
+                documentDecorationManager.goTo(editor, target);
+            })),
+
         workspace.onDidChangeConfiguration((event) => {
             if (event.affectsConfiguration("bracketPairColorizer") ||
                 event.affectsConfiguration("editor.lineHeight") ||
@@ -44,6 +65,9 @@ export function activate(context: ExtensionContext) {
         window.onDidChangeTextEditorSelection((event) => {
             documentDecorationManager.onDidChangeSelection(event);
         }),
+        window.onDidChangeTextEditorVisibleRanges((event) => {
+            documentDecorationManager.onDidChangeVisibleRanges(event);
+        }),
     );
 
     documentDecorationManager.updateAllDocuments();
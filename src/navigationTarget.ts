@@ -0,0 +1,10 @@
+enum NavigationTarget {
+    MatchingBracket,
+    ScopeStart,
+    ScopeEnd,
+    NextSiblingScope,
+    PreviousSiblingScope,
+    ParentScope,
+}
+
+export default NavigationTarget;
@@ -1,18 +1,14 @@
 import * as vscode from "vscode";
-import BracketPair from "./bracketPair";
-import ColorMode from "./colorMode";
-import Colors from "./colors";
+import AnalyzerSettings from "./core/analyzerSettings";
+import BracketPair from "./core/bracketPair";
+import Colors from "./core/colors";
+import OverrideConfiguration from "./core/overrideConfiguration";
 import GutterIconManager from "./gutterIconManager";
+import ThemeAwareColor from "./themeAwareColor";
 
 export default class Settings {
+    public readonly analyzerSettings: AnalyzerSettings;
     public readonly bracketDecorations: Map<string, vscode.TextEditorDecorationType>;
-    public readonly bracketPairs: BracketPair[] = [];
-    public readonly colorMode: ColorMode;
-    public readonly contextualParsing: boolean;
-    public readonly forceIterationColorCycle: boolean;
-    public readonly forceUniqueOpeningColor: boolean;
-    public readonly prismLanguageID: string;
-    public readonly regexNonExact: RegExp;
     public readonly timeOutLength: number;
     public readonly highlightActiveScope: boolean;
     public readonly showVerticalScopeLine: boolean;
@@ -21,22 +17,35 @@ export default class Settings {
     public readonly showBracketsInRuler: boolean;
     public readonly scopeLineRelativePosition: boolean;
     public readonly excludedLanguages: Set<string>;
+    public readonly diagnosticSeverity: vscode.DiagnosticSeverity | undefined;
+    public readonly foldingPairs: string[][];
+    public readonly foldingMinimumLineSpan: number;
+    // Cues for the nesting depth of brackets which don't rely on color
+    public readonly hasDepthCues: boolean;
+    public readonly depthDecorations = new Map<number, vscode.TextEditorDecorationType>();
     public isDisposed = false;
     private readonly gutterIcons: GutterIconManager;
     private readonly activeBracketCSSElements: string[][];
     private readonly activeScopeLineCSSElements: string[][];
     private readonly activeScopeLineCSSBorder: string;
     private readonly rulerPosition: string;
+    private readonly depthFontWeights: string[];
+    private readonly depthUnderlineStyles: string[];
+    private readonly showDepthNumbers: boolean;
 
     constructor(
         languageID: string,
         gutterIcons: GutterIconManager,
         documentUri?: vscode.Uri,
+        embeddedLanguageIDs: string[] = [],
+        documentLanguageID?: string,
     ) {
         this.gutterIcons = gutterIcons;
-        this.prismLanguageID = languageID;
 
-        const configuration = vscode.workspace.getConfiguration("bracketPairColorizer", documentUri);
+        const configuration = new OverrideConfiguration(
+            vscode.workspace.getConfiguration("bracketPairColorizer", documentUri),
+            documentLanguageID,
+            documentUri !== undefined ? vscode.workspace.asRelativePath(documentUri) : undefined);
         const activeScopeCSS = configuration.get("activeScopeCSS") as string[];
 
         const excludedLanguages = configuration.get("excludedLanguages") as string[];
@@ -54,6 +63,7 @@ export default class Settings {
         this.activeBracketCSSElements = activeScopeCSS.map((e) =>
             [e.substring(0, e.indexOf(":")).trim(),
             e.substring(e.indexOf(":") + 1).trim()]);
+        this.validateColorCSS(this.activeBracketCSSElements, "activeScopeCSS");
 
         const scopeLineCSS = configuration.get("scopeLineCSS") as string[];
 
@@ -64,6 +74,7 @@ export default class Settings {
         this.activeScopeLineCSSElements = scopeLineCSS.map((e) =>
             [e.substring(0, e.indexOf(":")).trim(),
             e.substring(e.indexOf(":") + 1).trim()]);
+        this.validateColorCSS(this.activeScopeLineCSSElements, "scopeLineCSS");
 
         const borderStyle = this.activeScopeLineCSSElements.filter((e) => e[0] === "borderStyle");
         if (borderStyle && borderStyle[0].length === 2) {
@@ -115,105 +126,77 @@ export default class Settings {
             throw new Error("rulerPosition is not a string");
         }
 
-        this.forceUniqueOpeningColor = configuration.get("forceUniqueOpeningColor") as boolean;
+        const languageDiagnosticSeverity =
+            configuration.get("languageDiagnosticSeverity") as { [languageID: string]: string };
 
-        if (typeof this.forceUniqueOpeningColor !== "boolean") {
-            throw new Error("forceUniqueOpeningColor is not a boolean");
+        if (typeof languageDiagnosticSeverity !== "object" || Array.isArray(languageDiagnosticSeverity)) {
+            throw new Error("languageDiagnosticSeverity is not an object");
         }
 
-        this.forceIterationColorCycle = configuration.get("forceIterationColorCycle") as boolean;
+        const diagnosticSeverity = documentLanguageID !== undefined &&
+            languageDiagnosticSeverity[documentLanguageID] !== undefined ?
+            languageDiagnosticSeverity[documentLanguageID] :
+            configuration.get("diagnosticSeverity") as string;
 
-        if (typeof this.forceIterationColorCycle !== "boolean") {
-            throw new Error("forceIterationColorCycle is not a boolean");
-        }
-
-        this.colorMode = (ColorMode as any)[configuration.get("colorMode") as string];
+        if (diagnosticSeverity !== "None") {
+            this.diagnosticSeverity =
+                vscode.DiagnosticSeverity[diagnosticSeverity as keyof typeof vscode.DiagnosticSeverity];
 
-        if (typeof this.colorMode !== "number") {
-            throw new Error("colorMode enum could not be parsed");
+            if (typeof this.diagnosticSeverity !== "number") {
+                throw new Error("diagnosticSeverity enum could not be parsed");
+            }
         }
 
-        this.timeOutLength = configuration.get<number>("timeOut") as number;
-
-        if (typeof this.timeOutLength !== "number") {
-            throw new Error("timeOutLength is not a number");
-        }
+        this.foldingPairs = configuration.get("foldingPairs") as string[][];
 
-        if (this.timeOutLength <= 0) {
-            this.timeOutLength = 1;
+        if (!Array.isArray(this.foldingPairs) || this.foldingPairs.some((e) =>
+            !Array.isArray(e) || e.length !== 2 || typeof e[0] !== "string" || typeof e[1] !== "string")) {
+            throw new Error("foldingPairs is not an array of [open, close] pairs");
         }
 
-        if (this.colorMode === ColorMode.Consecutive) {
-            const consecutiveSettings = configuration.get<[{}]>("consecutivePairColors");
+        this.foldingMinimumLineSpan = configuration.get("foldingMinimumLineSpan") as number;
 
-            if (!Array.isArray(consecutiveSettings)) {
-                throw new Error("consecutivePairColors is not an array");
-            }
-
-            if (consecutiveSettings.length < 3) {
-                throw new Error("consecutivePairColors expected at least 3 parameters, actual: "
-                    + consecutiveSettings.length);
-            }
+        // A scope on two lines would fold nothing, its close bracket stays visible
+        if (typeof this.foldingMinimumLineSpan !== "number" || this.foldingMinimumLineSpan < 2) {
+            throw new Error("foldingMinimumLineSpan is not a number of at least 2");
+        }
 
-            const orphanColor = consecutiveSettings[consecutiveSettings.length - 1] as string;
-            if (typeof orphanColor !== "string") {
-                throw new Error("consecutivePairColors[" + (consecutiveSettings.length - 1) + "] is not a string");
-            }
+        this.depthFontWeights = configuration.get("depthFontWeights") as string[];
 
-            const colors = consecutiveSettings[consecutiveSettings.length - 2] as string[];
-            if (!Array.isArray(colors)) {
-                throw new Error("consecutivePairColors[" + (consecutiveSettings.length - 2) + "] is not a string[]");
-            }
+        if (!Array.isArray(this.depthFontWeights) || this.depthFontWeights.some((e) =>
+            !/^(normal|bold|bolder|lighter|[1-9]00)$/.test(e))) {
+            throw new Error("depthFontWeights is not an array of font weights, e.g. [\"normal\", \"bold\"]");
+        }
 
-            consecutiveSettings.slice(0, consecutiveSettings.length - 2).forEach((brackets, index) => {
-                if (typeof brackets === "string" || Array.isArray(brackets)) {
-                    if (brackets.length !== 2) {
-                        throw new Error("consecutivePairColors[" + index + "] requires 2 element, e.g. ['(',')']");
-                    }
-                    this.bracketPairs.push(new BracketPair(brackets[0], brackets[1], colors, orphanColor));
-                    return;
-                }
+        this.depthUnderlineStyles = configuration.get("depthUnderlineStyles") as string[];
 
-                throw new Error("consecutivePairColors[ " + index + "] should be a string or an array of strings");
-            });
+        if (!Array.isArray(this.depthUnderlineStyles) || this.depthUnderlineStyles.some((e) =>
+            ["none", "solid", "double", "dotted", "dashed", "wavy"].indexOf(e) === -1)) {
+            throw new Error("depthUnderlineStyles is not an array of " +
+                "\"none\", \"solid\", \"double\", \"dotted\", \"dashed\" or \"wavy\"");
         }
-        else {
-            const independentSettings = configuration.get<[[{}]]>("independentPairColors");
-
-            if (!Array.isArray(independentSettings)) {
-                throw new Error("independentPairColors is not an array");
-            }
 
-            independentSettings.forEach((innerArray, index) => {
-                if (!Array.isArray(innerArray)) {
-                    throw new Error("independentPairColors[" + index + "] is not an array");
-                }
+        this.showDepthNumbers = configuration.get("showDepthNumbers") as boolean;
 
-                const brackets = innerArray[0] as string;
-                if (typeof brackets !== "string" && !Array.isArray(brackets)) {
-                    throw new Error("independentSettings[" + index + "][0] is not a string or an array of strings");
-                }
+        if (typeof this.showDepthNumbers !== "boolean") {
+            throw new Error("showDepthNumbers is not a boolean");
+        }
 
-                if (brackets.length < 2) {
-                    throw new Error("independentSettings[" + index + "][0] needs at least 2 elements");
-                }
+        this.hasDepthCues =
+            this.depthFontWeights.length > 0 || this.depthUnderlineStyles.length > 0 || this.showDepthNumbers;
 
-                const colors = innerArray[1] as string[];
-                if (!Array.isArray(colors)) {
-                    throw new Error("independentSettings[" + index + "][1] is not string[]");
-                }
+        this.timeOutLength = configuration.get<number>("timeOut") as number;
 
-                const orphanColor = innerArray[2] as string;
-                if (typeof orphanColor !== "string") {
-                    throw new Error("independentSettings[" + index + "][2] is not a string");
-                }
+        if (typeof this.timeOutLength !== "number") {
+            throw new Error("timeOutLength is not a number");
+        }
 
-                this.bracketPairs.push(new BracketPair(brackets[0], brackets[1], colors, orphanColor));
-            });
+        if (this.timeOutLength <= 0) {
+            this.timeOutLength = 1;
         }
 
-        this.regexNonExact = this.createRegex(this.bracketPairs, false);
-        this.bracketDecorations = this.createBracketDecorations(this.bracketPairs);
+        this.analyzerSettings = new AnalyzerSettings(languageID, configuration, embeddedLanguageIDs);
+        this.bracketDecorations = this.createBracketDecorations(this.analyzerSettings.bracketPairs);
     }
 
     public dispose() {
@@ -222,24 +205,64 @@ export default class Settings {
                 decoration.dispose();
             });
             this.bracketDecorations.clear();
+            this.depthDecorations.forEach((decoration) => decoration.dispose());
+            this.depthDecorations.clear();
             this.isDisposed = true;
         }
     }
 
-    public createGutterBracketDecorations(color: string, bracket: string) {
-        const gutterIcon = this.gutterIcons.GetIconUri(bracket, color);
+    // Created when a depth is first used, font weights and underline styles repeat for deeper brackets
+    public getDepthDecoration(depth: number) {
+        let decoration = this.depthDecorations.get(depth);
+        if (decoration !== undefined) {
+            return decoration;
+        }
+
         const decorationSettings: vscode.DecorationRenderOptions = {
-            gutterIconPath: gutterIcon,
+            rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
         };
+
+        if (this.depthFontWeights.length > 0) {
+            decorationSettings.fontWeight = this.depthFontWeights[depth % this.depthFontWeights.length];
+        }
+
+        if (this.depthUnderlineStyles.length > 0) {
+            const style = this.depthUnderlineStyles[depth % this.depthUnderlineStyles.length];
+            decorationSettings.textDecoration = style === "none" ? "none" : "underline " + style;
+        }
+
+        // The number is in the color of line numbers, and not in the font weight of the bracket
+        if (this.showDepthNumbers) {
+            decorationSettings.after = {
+                color: new vscode.ThemeColor("editorLineNumber.foreground"),
+                contentText: String(depth + 1),
+                fontWeight: "normal",
+            };
+        }
+
+        decoration = vscode.window.createTextEditorDecorationType(decorationSettings);
+        this.depthDecorations.set(depth, decoration);
+        return decoration;
+    }
+
+    // Icons are images, so theme colors are drawn in their default color
+    public createGutterBracketDecorations(color: string, bracket: string) {
+        const themeAwareColor = new ThemeAwareColor(this.analyzerSettings.getStyle(color).color);
+        const decorationSettings: vscode.DecorationRenderOptions = {};
+        const getIconUri = (css: string | undefined) =>
+            css !== undefined ? this.gutterIcons.GetIconUri(bracket, css) : undefined;
+        this.setThemedProperty(decorationSettings, "gutterIconPath",
+            getIconUri(themeAwareColor.lightCSS), getIconUri(themeAwareColor.darkCSS));
         const decoration = vscode.window.createTextEditorDecorationType(decorationSettings);
         return decoration;
     }
 
     public createRulerBracketDecorations(color: string) {
+        const themeAwareColor = new ThemeAwareColor(this.analyzerSettings.getStyle(color).color);
         const decorationSettings: vscode.DecorationRenderOptions = {
-            overviewRulerColor: color,
             overviewRulerLane: vscode.OverviewRulerLane[this.rulerPosition],
         };
+        this.setThemedProperty(decorationSettings, "overviewRulerColor", themeAwareColor.light, themeAwareColor.dark);
         const decoration = vscode.window.createTextEditorDecorationType(decorationSettings);
         return decoration;
     }
@@ -249,8 +272,9 @@ export default class Settings {
             rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
         };
 
+        const themeAwareColor = new ThemeAwareColor(this.analyzerSettings.getStyle(color).color);
         this.activeBracketCSSElements.forEach((element) => {
-            decorationSettings[element[0]] = element[1].replace("{color}", color);
+            this.setColorProperty(decorationSettings, element[0], element[1], themeAwareColor, (value) => value);
         });
 
         const decoration = vscode.window.createTextEditorDecorationType(decorationSettings);
@@ -269,30 +293,11 @@ export default class Settings {
         const botBorder = bottom ? this.activeScopeLineCSSBorder : none;
         const leftBorder = left ? this.activeScopeLineCSSBorder : none;
 
+        const themeAwareColor = new ThemeAwareColor(this.analyzerSettings.getStyle(color).color);
         this.activeScopeLineCSSElements.forEach((element) => {
             if (element[0].includes("Color")) {
-                const colorElement = element[1].replace("{color}", color);
-                if (!colorElement.includes("rgb") && colorElement.includes("opacity")) {
-                    const colorSplit = colorElement.split(";");
-                    const opacitySplit = colorSplit[1].split(":");
-                    if (colorSplit[0].includes("#")) {
-                        const rgb = Colors.hex2rgb(colorSplit[0]);
-                        if (rgb) {
-                            const rbgaString = `rgba(${rgb.r},${rgb.g},${rgb.b},${opacitySplit[1]});`;
-                            decorationSettings[element[0]] = rbgaString;
-                        }
-                    }
-                    else { // Assume css color
-                        const rgb = Colors.name2rgb(colorSplit[0]);
-                        if (rgb) {
-                            const rbgaString = `rgba(${rgb.r},${rgb.g},${rgb.b},${opacitySplit[1]});`;
-                            decorationSettings[element[0]] = rbgaString;
-                        }
-                    }
-                }
-                else {
-                    decorationSettings[element[0]] = colorElement;
-                }
+                this.setColorProperty(
+                    decorationSettings, element[0], element[1], themeAwareColor, (e) => this.applyOpacity(e));
             }
             else {
                 decorationSettings[element[0]] = element[1];
@@ -312,50 +317,102 @@ export default class Settings {
         return decoration;
     }
 
-    private createRegex(bracketPairs: BracketPair[], exact: boolean): RegExp {
-        const escape = (s: string) => s.replace(/[-\/\\^$*+?.()|[\]{}]/g, "\\$&");
-        let regex = "";
-        const matches: string[] = [];
-        bracketPairs.forEach((bracketPair) => {
-            matches.push(bracketPair.openCharacter);
-            matches.push(bracketPair.closeCharacter);
-        });
+    private createBracketDecorations(bracketPairs: BracketPair[]): Map<string, vscode.TextEditorDecorationType> {
+        const decorations = new Map<string, vscode.TextEditorDecorationType>();
+
+        // One decoration type per style, the color of a style is its key
+        for (const bracketPair of bracketPairs) {
+            for (const color of bracketPair.colors.concat(bracketPair.orphanColor)) {
+                const style = this.analyzerSettings.getStyle(color);
+                const themeAwareColor = new ThemeAwareColor(style.color);
+                const decorationSettings: vscode.DecorationRenderOptions = {
+                    rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
+                };
+                this.setThemedProperty(decorationSettings, "color", themeAwareColor.light, themeAwareColor.dark);
+
+                AnalyzerSettings.styleProperties.forEach((property) => {
+                    const value = style[property];
+                    if (value !== undefined) {
+                        this.setColorProperty(decorationSettings, property, value, themeAwareColor,
+                            (e) => property === "backgroundColor" ? this.applyOpacity(e) : e);
+                    }
+                });
+
+                decorations.set(color, vscode.window.createTextEditorDecorationType(decorationSettings));
+            }
+        }
 
-        const sortedByLengthMatches = matches.sort((a, b) => b.length - a.length);
+        return decorations;
+    }
 
-        sortedByLengthMatches.forEach((match) => {
-            if (regex !== "") {
-                regex += "|";
+    // A color followed by an opacity becomes a transparent color, e.g. "Gold; opacity: 0.5"
+    private applyOpacity(value: string): string | undefined {
+        const colorSplit = value.split(";");
+        const opacity = /^\s*opacity\s*:\s*([^;]*)/.exec(colorSplit.slice(1).join(";"));
+        if (opacity !== null) {
+            const rgb = Colors.parse(colorSplit[0]);
+            if (rgb) {
+                return Colors.toRGB({ r: rgb.r, g: rgb.g, b: rgb.b, a: rgb.a * parseFloat(opacity[1]) });
             }
+            return undefined;
+        }
+        return value;
+    }
 
-            if (exact) {
-                regex += `${escape(match)}`;
+    // Color properties are a color or {color}, optionally followed by more CSS, e.g. "{color}; opacity: 0.5"
+    private validateColorCSS(elements: string[][], name: string) {
+        elements.forEach((element, index) => {
+            if (!/color$/i.test(element[0])) {
+                return;
             }
-            else {
-                regex += `${escape(match)}`;
+
+            const color = element[1].split(";")[0].trim();
+            if (color !== "{color}" && Colors.parse(color) === undefined) {
+                throw new Error(name + "[" + index + "] " + Colors.describeInvalid(color));
+            }
+
+            const opacity = /^\s*opacity\s*:\s*([^;]*)/.exec(element[1].split(";").slice(1).join(";"));
+            if (opacity !== null && !/^(\d+\.?\d*|\.\d+)$/.test(opacity[1].trim())) {
+                throw new Error(name + "[" + index + "] opacity is not a number: \"" + opacity[1].trim() + "\"");
             }
         });
-        return new RegExp(regex, !exact ? "g" : undefined);;
     }
 
-    private createBracketDecorations(bracketPairs: BracketPair[]): Map<string, vscode.TextEditorDecorationType> {
-        const decorations = new Map<string, vscode.TextEditorDecorationType>();
+    // A CSS value in which {color} is replaced, a theme color is used as is when it is the whole value of a color
+    // property, otherwise by its default color. convert returns undefined to leave the property unset
+    private setColorProperty(
+        decorationSettings: vscode.DecorationRenderOptions, property: string, value: string,
+        color: ThemeAwareColor, convert: (value: string) => string | undefined) {
+        if (value.trim() === "{color}" && /color$/i.test(property)) {
+            this.setThemedProperty(decorationSettings, property, color.light, color.dark);
+            return;
+        }
 
-        for (const bracketPair of bracketPairs) {
-            for (const color of bracketPair.colors) {
-                const decoration = vscode.window.createTextEditorDecorationType({
-                    color, rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
-                });
-                decorations.set(color, decoration);
+        const getValue = (css: string | undefined) =>
+            css !== undefined ? convert(value.replace("{color}", css)) : undefined;
+        this.setThemedProperty(decorationSettings, property, getValue(color.lightCSS), getValue(color.darkCSS));
+    }
+
+    // Values which differ are set on the light and dark theme variants of the decoration
+    private setThemedProperty(
+        decorationSettings: vscode.DecorationRenderOptions, property: string,
+        light: string | vscode.ThemeColor | vscode.Uri | undefined,
+        dark: string | vscode.ThemeColor | vscode.Uri | undefined) {
+        if (light === dark) {
+            if (light !== undefined) {
+                decorationSettings[property] = light;
             }
+            return;
+        }
 
-            const errorDecoration = vscode.window.createTextEditorDecorationType({
-                color: bracketPair.orphanColor,
-                rangeBehavior: vscode.DecorationRangeBehavior.ClosedClosed,
-            });
-            decorations.set(bracketPair.orphanColor, errorDecoration);
+        if (light !== undefined) {
+            decorationSettings.light = decorationSettings.light || {};
+            decorationSettings.light[property] = light;
         }
 
-        return decorations;
+        if (dark !== undefined) {
+            decorationSettings.dark = decorationSettings.dark || {};
+            decorationSettings.dark[property] = dark;
+        }
     }
 }
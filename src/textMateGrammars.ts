@@ -0,0 +1,124 @@
+import * as fs from "fs";
+import * as path from "path";
+import { extensions } from "vscode";
+import * as oniguruma from "vscode-oniguruma";
+import { IGrammar, IOnigLib, parseRawGrammar, Registry } from "vscode-textmate";
+
+// TextMate grammars which installed extensions contribute, tokenized with vscode-textmate
+export default class TextMateGrammars {
+    // Undefined until the grammar is loaded, or if the language has no grammar
+    public static getGrammar(languageID: string): IGrammar | undefined {
+        return this.grammars.get(languageID);
+    }
+
+    public static isLoaded(languageID: string): boolean {
+        return this.grammars.has(languageID);
+    }
+
+    // Resolves to undefined if the language has no grammar, or it could not be loaded
+    public static loadGrammar(languageID: string): Promise<IGrammar | undefined> {
+        let loading = this.loading.get(languageID);
+        if (loading === undefined) {
+            loading = Promise.resolve().then(() => this.load(languageID)).then((grammar) => {
+                this.grammars.set(languageID, grammar);
+                return grammar;
+            }, (error) => {
+                console.warn(error);
+                this.grammars.set(languageID, undefined);
+                return undefined;
+            });
+            this.loading.set(languageID, loading);
+        }
+
+        return loading;
+    }
+
+    private static readonly grammars = new Map<string, IGrammar | undefined>();
+    private static readonly loading = new Map<string, Promise<IGrammar | undefined>>();
+    private static registry: Registry | undefined;
+
+    private static load(languageID: string): Promise<IGrammar | undefined> {
+        const contribution = this.getContributions().find((e) => e.language === languageID);
+        if (contribution === undefined) {
+            return Promise.resolve(undefined);
+        }
+
+        return this.getRegistry().loadGrammar(contribution.scopeName).then((grammar) => grammar || undefined);
+    }
+
+    private static getRegistry(): Registry {
+        if (this.registry !== undefined) {
+            return this.registry;
+        }
+
+        const contributions = this.getContributions();
+        this.registry = new Registry({
+            getInjections: (scopeName: string) => contributions
+                .filter((e) => e.injectTo.indexOf(scopeName) !== -1)
+                .map((e) => e.scopeName),
+            loadGrammar: (scopeName: string) => {
+                const contribution = contributions.find((e) => e.scopeName === scopeName);
+                if (contribution === undefined) {
+                    return Promise.resolve(null);
+                }
+
+                return this.readFile(contribution.path)
+                    .then((content) => parseRawGrammar(content.toString("utf8"), contribution.path));
+            },
+            onigLib: this.loadOnigLib(),
+        });
+
+        return this.registry;
+    }
+
+    // The regular expressions of grammars are run by the WebAssembly build of Oniguruma
+    private static loadOnigLib(): Promise<IOnigLib> {
+        const wasmPath = path.join(path.dirname(require.resolve("vscode-oniguruma")), "onig.wasm");
+        return this.readFile(wasmPath)
+            .then((wasm) => oniguruma.loadWASM(wasm.buffer.slice(wasm.byteOffset, wasm.byteOffset + wasm.byteLength)))
+            .then(() => ({
+                createOnigScanner: (patterns: string[]) => new oniguruma.OnigScanner(patterns),
+                createOnigString: (text: string) => new oniguruma.OnigString(text),
+            }));
+    }
+
+    private static readFile(filePath: string): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            fs.readFile(filePath, (error, content) => {
+                if (error) {
+                    reject(error);
+                }
+                else {
+                    resolve(content);
+                }
+            });
+        });
+    }
+
+    // Grammars of the package.json "grammars" contribution point of every extension
+    private static getContributions() {
+        const contributions: Array<{ language?: string, scopeName: string, path: string, injectTo: string[] }> = [];
+        extensions.all.forEach((extension) => {
+            const contributes = extension.packageJSON.contributes;
+            const grammars = contributes !== undefined ? contributes.grammars : undefined;
+            if (!Array.isArray(grammars)) {
+                return;
+            }
+
+            grammars.forEach((grammar) => {
+                if (typeof grammar.scopeName !== "string" || typeof grammar.path !== "string") {
+                    return;
+                }
+
+                contributions.push({
+                    injectTo: Array.isArray(grammar.injectTo) ? grammar.injectTo : [],
+                    language: grammar.language,
+                    path: path.join(extension.extensionPath, grammar.path),
+                    scopeName: grammar.scopeName,
+                });
+            });
+        });
+
+        return contributions;
+    }
+}
@@ -0,0 +1,44 @@
+import { ThemeColor } from "vscode";
+import Colors from "./core/colors";
+import IThemedColor from "./core/IThemedColor";
+
+// A color of a palette for light and dark themes, each a CSS color or the id of a theme color, e.g.
+// "bracketPairColorizer.color1"
+// High contrast themes use the dark color, theme colors have their own high contrast color
+export default class ThemeAwareColor {
+    // Defaults of the theme colors the extension contributes, by id
+    private static readonly contributedColors: { [id: string]: { light: string, dark: string } } = (() => {
+        const colors: { [id: string]: { light: string, dark: string } } = {};
+        const contributed: Array<{ id: string, defaults: { light: string, dark: string } }> =
+            require("../../package.json").contributes.colors;
+        contributed.forEach((e) => colors[e.id] = e.defaults);
+        return colors;
+    })();
+
+    public readonly light: string | ThemeColor;
+    public readonly dark: string | ThemeColor;
+    // Theme colors are replaced by their default color, which is unknown for the colors of other extensions
+    public readonly lightCSS: string | undefined;
+    public readonly darkCSS: string | undefined;
+
+    constructor({ light, dark }: IThemedColor) {
+        // A theme color is one object, so the decoration of both theme kinds is the same
+        this.light = this.toColor(light);
+        this.dark = dark === light ? this.light : this.toColor(dark);
+        this.lightCSS = this.toCSS(light, "light");
+        this.darkCSS = this.toCSS(dark, "dark");
+    }
+
+    private toColor(color: string): string | ThemeColor {
+        return Colors.isThemeColorID(color) ? new ThemeColor(color) : color;
+    }
+
+    private toCSS(color: string, themeKind: "light" | "dark"): string | undefined {
+        if (!Colors.isThemeColorID(color)) {
+            return color;
+        }
+
+        const defaults = ThemeAwareColor.contributedColors[color];
+        return defaults !== undefined ? defaults[themeKind] : undefined;
+    }
+}
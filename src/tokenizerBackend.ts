@@ -0,0 +1,6 @@
+enum TokenizerBackend {
+    Prism,
+    TextMate,
+}
+
+export default TokenizerBackend;
@@ -0,0 +1,85 @@
+import * as assert from "assert";
+import AnalyzerSettings from "../src/core/analyzerSettings";
+import ISettingObject from "../src/core/ISettingObject";
+import TestConfiguration from "./testConfiguration";
+
+suite("AnalyzerSettings", () => {
+    const create = (settings: ISettingObject) => new AnalyzerSettings("javascript", new TestConfiguration(settings));
+
+    test("the default palettes are theme colors which the extension contributes", () => {
+        const packageJson = require("../../package.json");
+        const contributedColors: string[] = packageJson.contributes.colors.map((e: { id: string }) => e.id);
+        assert.deepStrictEqual(contributedColors, ["bracketPairColorizer.color1", "bracketPairColorizer.color2",
+            "bracketPairColorizer.color3", "bracketPairColorizer.orphanColor"]);
+
+        const settings = create({});
+        settings.bracketPairs.forEach((pair) => {
+            assert.deepStrictEqual(pair.colors,
+                ["bracketPairColorizer.color1", "bracketPairColorizer.color2", "bracketPairColorizer.color3"]);
+            assert.strictEqual(pair.orphanColor, "bracketPairColorizer.orphanColor");
+        });
+    });
+
+    test("a color per theme kind is a style, other colors are used for both theme kinds", () => {
+        const settings = create({
+            consecutivePairColors: ["()", [{ dark: "Gold", light: "DarkGoldenrod" }, "Orchid"], "Red"],
+        });
+        const colors = settings.bracketPairs[0].colors;
+        assert.deepStrictEqual(settings.getStyle(colors[0]), { color: { dark: "Gold", light: "DarkGoldenrod" } });
+        assert.strictEqual(colors[1], "Orchid");
+        assert.deepStrictEqual(settings.getStyle(colors[1]), { color: { dark: "Orchid", light: "Orchid" } });
+    });
+
+    test("a color per theme kind needs both colors", () => {
+        assert.throws(() => create({ consecutivePairColors: ["()", [{ dark: "Gold" }], "Red"] }),
+            /^Error: consecutivePairColors\[1\]\[0\] is not a color, an object with a light and a dark color/);
+        assert.throws(() => create({ consecutivePairColors: ["()", [{ dark: "Gold", light: "Nope" }], "Red"] }),
+            /^Error: consecutivePairColors\[1\]\[0\]\.light is not a valid color: "Nope"/);
+    });
+
+    test("color-blind-safe palettes have a color per theme kind with enough contrast", () => {
+        ["deuteranopia", "protanopia", "tritanopia"].forEach((palette) => {
+            const settings = create({ consecutivePairColors: ["()", { palette }, "Red"] });
+            const colors = settings.bracketPairs[0].colors;
+            assert.strictEqual(colors.length, 3);
+            colors.forEach((color) => assert.notStrictEqual(settings.getStyle(color).color.light,
+                settings.getStyle(color).color.dark));
+            assert.deepStrictEqual(settings.warnings, []);
+        });
+
+        assert.throws(() => create({ consecutivePairColors: ["()", { palette: "achromatopsia" }, "Red"] }),
+            /^Error: consecutivePairColors\[1\]\.palette is not "deuteranopia", "protanopia" or "tritanopia"/);
+    });
+
+    test("styles with the same properties share a key, whatever the order of their properties", () => {
+        const settings = create({
+            consecutivePairColors: ["()", [
+                { border: "1px solid {color}", color: "Gold", fontWeight: "bold" },
+                // tslint:disable-next-line:object-literal-sort-keys
+                { fontWeight: "bold", color: "Gold", border: "1px solid {color}" },
+                { color: { dark: "Gold", light: "Blue" }, fontStyle: "italic" },
+            ], { backgroundColor: "rgba(255, 0, 0, 0.2)", color: "Red" }],
+        });
+        const pair = settings.bracketPairs[0];
+        assert.strictEqual(pair.colors[0], pair.colors[1]);
+        assert.deepStrictEqual(settings.getStyle(pair.colors[0]),
+            { border: "1px solid {color}", color: { dark: "Gold", light: "Gold" }, fontWeight: "bold" });
+        assert.deepStrictEqual(settings.getStyle(pair.colors[2]),
+            { color: { dark: "Gold", light: "Blue" }, fontStyle: "italic" });
+        assert.deepStrictEqual(settings.getStyle(pair.orphanColor),
+            { backgroundColor: "rgba(255, 0, 0, 0.2)", color: { dark: "Red", light: "Red" } });
+    });
+
+    test("style properties and their values are checked", () => {
+        const createStyle = (style: ISettingObject) => () => create({ consecutivePairColors: ["()", [style], "Red"] });
+        assert.throws(createStyle({ color: "Gold", textDecoration: "underline" }),
+            new RegExp("^Error: consecutivePairColors\\[1\\]\\[0\\]\\.textDecoration is not a style property, " +
+                "expected one of backgroundColor, border, color, fontStyle, fontWeight, outline"));
+        assert.throws(createStyle({ color: "Gold", fontWeight: "heavy" }),
+            /^Error: consecutivePairColors\[1\]\[0\]\.fontWeight is not a font weight/);
+        assert.throws(createStyle({ color: "Gold", fontStyle: "slanted" }),
+            /^Error: consecutivePairColors\[1\]\[0\]\.fontStyle is not "normal", "italic" or "oblique"/);
+        assert.throws(createStyle({ backgroundColor: "Nope", color: "Gold" }),
+            /^Error: consecutivePairColors\[1\]\[0\]\.backgroundColor is not a valid color: "Nope"/);
+    });
+});
@@ -0,0 +1,102 @@
+import * as assert from "assert";
+import JsonConfiguration from "../src/cli/jsonConfiguration";
+import AnalyzerSettings from "../src/core/analyzerSettings";
+import BracketAnalyzer from "../src/core/bracketAnalyzer";
+import TestBrackets from "./testBrackets";
+
+suite("BracketAnalyzer", () => {
+    const settings = new AnalyzerSettings("javascript", new JsonConfiguration());
+
+    const lineTemplates = [
+        "function f(a, b) {",
+        "  [x = f(1, [2]);",
+        "  /* ( [ */",
+        "  const s = \"a(b\";",
+        "  `t ${g(1)} (`",
+        "}",
+        ")",
+        "  if (a) { b(c[0]); }",
+        "  // } ]",
+        "  x = /[(]/.test(y);",
+        "];",
+    ];
+    const insertions = ["(", ")", "[", "]", "{", "}", "/*", "*/", "\"", "`", "a]*/", "\n", "x", "${", "//"];
+
+    // Colors, scopes and orphans of all lines, in a form which can be compared
+    function getResult(analyzer: BracketAnalyzer) {
+        const colors: string[] = [];
+        analyzer.getColorRanges().forEach((ranges, color) => {
+            ranges.forEach((range) => colors.push(color + " " + range.start.line + ":" + range.start.character));
+        });
+
+        const scopes = analyzer.getScopes().map((scope) =>
+            scope.range.start.line + ":" + scope.range.start.character + "-" +
+            scope.range.end.line + ":" + scope.range.end.character);
+        const orphans = analyzer.getOrphans().map((orphan) =>
+            orphan.range.start.line + ":" + orphan.range.start.character);
+
+        return { colors: colors.sort(), orphans: orphans.sort(), scopes: scopes.sort() };
+    }
+
+    // Random edits are parsed incrementally, which must give the same result as parsing the whole text again
+    function checkRandomEdits(seed: number, lineCount: number, editCount: number) {
+        const random = (max: number) => {
+            seed = (seed * 1103515245 + 12345) % 2147483648;
+            return seed % max;
+        };
+
+        let text = "";
+        for (let i = 0; i < lineCount; i++) {
+            text += lineTemplates[random(lineTemplates.length)] + "\n";
+        }
+
+        const analyzer = new BracketAnalyzer(settings);
+        analyzer.update(text);
+
+        for (let edit = 0; edit < editCount; edit++) {
+            const lines = text.split("\n");
+            const line = random(lines.length);
+            const character = random(lines[line].length + 1);
+            const offset = lines.slice(0, line).reduce((sum, e) => sum + e.length + 1, 0) + character;
+            const removed = text.substr(offset, random(3));
+            const inserted = insertions[random(insertions.length)];
+
+            const removedLineCount = removed.split("\n").length - 1;
+            analyzer.markDirty(line, line + removedLineCount, inserted.split("\n").length - 1 - removedLineCount);
+            text = text.substring(0, offset) + inserted + text.substring(offset + removed.length);
+            analyzer.update(text);
+
+            const fullAnalyzer = new BracketAnalyzer(settings);
+            fullAnalyzer.update(text);
+            assert.deepStrictEqual(getResult(analyzer), getResult(fullAnalyzer),
+                "edit " + edit + " replaced " + JSON.stringify(removed) + " with " + JSON.stringify(inserted) +
+                " at " + line + ":" + character);
+        }
+    }
+
+    test("orphans are close brackets without an open bracket and open brackets which are never closed", () => {
+        assert.strictEqual(TestBrackets.parseAndDescribe("javascript", "a)\nf(b) {\n"), ")? (1:1 )1:1 {?");
+        assert.strictEqual(TestBrackets.parseAndDescribe("javascript", "if (a) {\n  f(b[0]);\n}\n"),
+            "(0:3 )0:3 {0:7 (1:3 [1:5 ]1:5 )1:3 }0:7");
+    });
+
+    test("a close bracket of another pair is a mismatch of the last open bracket", () => {
+        assert.strictEqual(TestBrackets.parseAndDescribe("javascript", "f(a]\n}\n[b"), "(! ]! }? [?");
+        assert.strictEqual(TestBrackets.parseAndDescribe("javascript", "{ [ }"), "{? [! }!");
+    });
+
+    test("brackets are grouped by their nesting depth, orphans have no depth", () => {
+        const depths: string[] = [];
+        TestBrackets.parse("javascript", "f(a[0], {b: (c)})\n)").getDepthRanges().forEach((ranges, depth) =>
+            depths.push(depth + ": " + ranges.map((e) => e.start.line + ":" + e.start.character).join(" ")));
+        assert.deepStrictEqual(depths, ["0: 0:1 0:16", "1: 0:3 0:5 0:8 0:15", "2: 0:12 0:14"]);
+    });
+
+    test("incremental parsing matches a full parse after random edits", () => {
+        [1, 2, 3, 4, 5, 6].forEach((seed) => checkRandomEdits(seed, 400, 150));
+    });
+
+    test("incremental parsing matches a full parse in documents larger than a chunk", () => {
+        checkRandomEdits(7, 5000, 10);
+    });
+});
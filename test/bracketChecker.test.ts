@@ -0,0 +1,32 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import BracketChecker from "../src/cli/bracketChecker";
+import TestConfiguration from "./testConfiguration";
+
+suite("BracketChecker", () => {
+    const file = path.join(os.tmpdir(), "bracket-pair-check-test.sh");
+
+    suiteSetup(() => {
+        fs.writeFileSync(file, "echo $(date)\n# (\n");
+    });
+
+    suiteTeardown(() => {
+        fs.unlinkSync(file);
+    });
+
+    test("files have the VSCode language of their extension", () => {
+        assert.deepStrictEqual(new BracketChecker(new TestConfiguration()).checkFile(file), []);
+
+        const excluded = new TestConfiguration({ excludedLanguages: ["shellscript"] });
+        assert.strictEqual(new BracketChecker(excluded).checkFile(file), undefined);
+    });
+
+    test("languageMap maps the VSCode language to a Prism language", () => {
+        // # does not start a comment in javascript
+        const configuration = new TestConfiguration({ languageMap: { shellscript: "javascript" } });
+        const problems = new BracketChecker(configuration).checkFile(file) || [];
+        assert.deepStrictEqual(problems.map((e) => e.message), ["'(' is never closed"]);
+    });
+});
@@ -0,0 +1,63 @@
+import * as assert from "assert";
+import AnalyzerSettings from "../src/core/analyzerSettings";
+import Colors from "../src/core/colors";
+import IColor from "../src/core/IColor";
+import TestConfiguration from "./testConfiguration";
+
+suite("Colors", () => {
+    test("parse reads names, hex, rgb() and hsl()", () => {
+        assert.deepStrictEqual(Colors.parse("Gold"), { r: 255, g: 215, b: 0, a: 1 });
+        assert.deepStrictEqual(Colors.parse("#03F"), { r: 0, g: 51, b: 255, a: 1 });
+        assert.deepStrictEqual(Colors.parse("#0033ff80"), { r: 0, g: 51, b: 255, a: 128 / 255 });
+        assert.deepStrictEqual(Colors.parse("rgb(255 0 0 / 50%)"), { r: 255, g: 0, b: 0, a: 0.5 });
+        assert.deepStrictEqual(Colors.parse("hsl(120, 100%, 50%)"), { r: 0, g: 255, b: 0, a: 1 });
+        assert.deepStrictEqual(Colors.parse("transparent"), { r: 0, g: 0, b: 0, a: 0 });
+    });
+
+    test("parse requires the # of hex colors", () => {
+        ["bad", "cafe", "decade", "facade", "03F", "0033ff"].forEach((color) =>
+            assert.strictEqual(Colors.parse(color), undefined, color));
+    });
+
+    test("parse rejects invalid colors", () => {
+        ["", "#12", "#12345", "rgb(1, 2)", "hsl(a, b, c)", "Gold(1)"].forEach((color) =>
+            assert.strictEqual(Colors.parse(color), undefined, color));
+    });
+
+    test("parse rejects names of object members", () => {
+        ["constructor", "toString", "hasOwnProperty", "__proto__"].forEach((color) =>
+            assert.strictEqual(Colors.parse(color), undefined, color));
+    });
+
+    test("describeInvalid tells hex colors without a # apart from other invalid colors", () => {
+        assert.strictEqual(Colors.describeInvalid("ff0000"), "is a hex color without a #: \"ff0000\", use \"#ff0000\"");
+        assert.strictEqual(Colors.describeInvalid("constructor"), "is not a valid color: \"constructor\"");
+    });
+
+    test("settings with hex colors without a # are rejected with the name of the setting", () => {
+        assert.throws(() => new AnalyzerSettings("javascript", new TestConfiguration({
+            consecutivePairColors: ["()", ["Gold", "ff0000"], "Red"],
+        })), /^Error: consecutivePairColors\[1\]\[1\] is a hex color without a #: "ff0000"/);
+
+        assert.throws(() => new AnalyzerSettings("javascript", new TestConfiguration({
+            consecutivePairColors: ["()", ["toString"], "Red"],
+        })), /^Error: consecutivePairColors\[1\]\[0\] is not a valid color: "toString"/);
+    });
+
+    test("contrastRatio is the WCAG 2 contrast ratio", () => {
+        const black = Colors.parse("black") as IColor;
+        const white = Colors.parse("white") as IColor;
+        assert.strictEqual(Colors.contrastRatio(black, white), 21);
+        assert.strictEqual(Colors.contrastRatio(white, black), 21);
+        assert.strictEqual(Colors.contrastRatio(white, white), 1);
+        assert.strictEqual(Colors.contrastRatio(Colors.parse("#777") as IColor, white).toFixed(2), "4.48");
+    });
+
+    test("contrastRatio blends a transparent color over the background", () => {
+        const black = Colors.parse("black") as IColor;
+        const transparentWhite = Colors.parse("rgba(255, 255, 255, 0.5)") as IColor;
+        assert.strictEqual(Colors.contrastRatio(Colors.parse("transparent") as IColor, black), 1);
+        assert.strictEqual(Colors.contrastRatio(transparentWhite, black),
+            Colors.contrastRatio(Colors.blend(transparentWhite, black), black));
+    });
+});
@@ -0,0 +1,41 @@
+import * as assert from "assert";
+import AnalyzerSettings from "../src/core/analyzerSettings";
+import TestBrackets from "./testBrackets";
+import TestConfiguration from "./testConfiguration";
+
+suite("Contextual pairs", () => {
+    const configuration = new TestConfiguration({
+        consecutivePairColors: ["()", "<>", ["Gold", "Orchid"], "Red"],
+    });
+
+    test("angle brackets of generics are pairs, comparisons are not orphans", () => {
+        assert.strictEqual(TestBrackets.parseAndDescribe("typescript", "let m: Map<string, Array<T>> = f(a < b);",
+            configuration), "<0:10 <0:24 >0:24 >0:10 (0:32 )0:32");
+        assert.strictEqual(TestBrackets.parseAndDescribe("typescript", "if (a > b && c < d) { x = y >> 2; }",
+            configuration), "(0:3 )0:3");
+    });
+
+    test("a shift only closes generics which are open", () => {
+        assert.strictEqual(TestBrackets.parseAndDescribe("typescript", "x = a >> 2 >= b;", configuration), "");
+        assert.strictEqual(TestBrackets.parseAndDescribe("rust", "let v: Vec<Vec<u8>> = x >> 1;",
+            configuration), "<0:10 <0:14 >0:14 >0:10");
+    });
+
+    test("contextualParsing turns the rules off", () => {
+        const noParsing = new TestConfiguration({
+            consecutivePairColors: ["()", "<>", ["Gold", "Orchid"], "Red"],
+            contextualParsing: false,
+        });
+        assert.strictEqual(TestBrackets.parseAndDescribe("typescript", "f(a < b)", noParsing), "(0:1 )0:1");
+    });
+
+    test("rules of Prism languages apply to the VSCode language ids mapped to them", () => {
+        const settings = new AnalyzerSettings("typescriptreact", configuration);
+        assert.deepStrictEqual(settings.getModifierPairs("typescriptreact").map((e) => e.openingCharacter), ["<"]);
+        assert.deepStrictEqual(settings.getModifierPairs("tsx").map((e) => e.openingCharacter), ["<"]);
+        assert.deepStrictEqual(settings.getModifierPairs("python"), []);
+
+        const mapped = new AnalyzerSettings("mylang", new TestConfiguration({ languageMap: { mylang: "rust" } }));
+        assert.deepStrictEqual(mapped.getModifierPairs("mylang").map((e) => e.openingCharacter), ["<", "|"]);
+    });
+});
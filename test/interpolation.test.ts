@@ -0,0 +1,31 @@
+import * as assert from "assert";
+import TestBrackets from "./testBrackets";
+
+suite("Interpolation", () => {
+    test("code in strings is matched, the text of the string is skipped", () => {
+        assert.strictEqual(TestBrackets.parseAndDescribe("javascript", "f(`a ${g(b)} ( ${[1]}`)"),
+            "(0:1 {0:6 (0:8 )0:8 }0:6 {0:16 [0:17 ]0:17 }0:16 )0:1");
+        assert.strictEqual(TestBrackets.parseAndDescribe("typescript", "x = `a ${`b ${c(1)}`}`"),
+            "{0:8 {0:13 (0:15 )0:15 }0:13 }0:8");
+        assert.strictEqual(TestBrackets.parseAndDescribe("ruby", "s = \"a #{f(b)} (\" + '#{x}'"),
+            "{0:8 (0:10 )0:10 }0:8");
+    });
+
+    test("doubled braces of Python f-strings are text, other strings are not interpolated", () => {
+        assert.strictEqual(TestBrackets.parseAndDescribe("python", "s = f\"{a[1]} {{ ( {b}\" + \"{c}\""),
+            "{0:6 [0:8 ]0:8 }0:6 {0:18 }0:18");
+    });
+
+    test("command substitution is code in double quoted shell strings and here-documents", () => {
+        assert.strictEqual(TestBrackets.parseAndDescribe("shellscript", "echo \"$(date) (\" '$(x)' $(y)"),
+            "(0:7 )0:7 (0:25 )0:25");
+        assert.strictEqual(TestBrackets.parseAndDescribe("shellscript",
+            "cat <<EOF\n$(date) (\nEOF\ncat <<'EOF'\n$(x)\nEOF\n"), "(1:1 )1:1");
+    });
+
+    test("brackets of the code continue the depth of the enclosing code", () => {
+        assert.strictEqual(TestBrackets.describeColors(TestBrackets.parse("javascript", "f(`a ${g(b)} (`)")),
+            "0:1 bracketPairColorizer.color1, 0:6 bracketPairColorizer.color2, 0:8 bracketPairColorizer.color3, " +
+            "0:10 bracketPairColorizer.color3, 0:11 bracketPairColorizer.color2, 0:15 bracketPairColorizer.color1");
+    });
+});
@@ -0,0 +1,28 @@
+import * as assert from "assert";
+import TestBrackets from "./testBrackets";
+import TestConfiguration from "./testConfiguration";
+
+suite("Keyword pairs", () => {
+    const configuration = (pair: Array<string | string[]>) =>
+        new TestConfiguration({ consecutivePairColors: ["()", pair, ["Gold", "Orchid"], "Red"] });
+
+    test("keywords are matched on word boundaries, not in names, strings or comments", () => {
+        assert.strictEqual(TestBrackets.parseAndDescribe("pascal", "begin\n  ending := 'begin'; { end }\nend",
+            configuration(["begin", "end"])), "begin0:0 end0:0");
+        assert.strictEqual(TestBrackets.parseAndDescribe("bash", "if [ a ]; then\n  echo $a\nfi",
+            configuration(["if", "fi"])), "if0:0 fi0:0");
+    });
+
+    test("several open keywords share a close keyword, which closes the last opened one", () => {
+        assert.strictEqual(TestBrackets.parseAndDescribe("ruby", "def f\n  x.each do |a|\n    backend = a\n  end\nend",
+            configuration([["class", "def", "do"], "end"])), "def0:0 do1:9 end1:9 end0:0");
+        assert.strictEqual(TestBrackets.parseAndDescribe("lua", "function f() if a then return end end end",
+            configuration([["function", "if"], "end"])), "function0:0 (0:10 )0:10 if0:13 end0:13 end0:0 end?");
+    });
+
+    test("keyword brackets are colored by depth", () => {
+        const analyzer = TestBrackets.parse("ruby", "class A\n  def f\n  end\nend",
+            configuration([["class", "def", "do"], "end"]));
+        assert.strictEqual(TestBrackets.describeColors(analyzer), "0:0 Gold, 1:2 Orchid, 2:2 Orchid, 3:0 Gold");
+    });
+});
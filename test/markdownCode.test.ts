@@ -0,0 +1,25 @@
+import * as assert from "assert";
+import TestBrackets from "./testBrackets";
+import TestConfiguration from "./testConfiguration";
+
+suite("Markdown code blocks", () => {
+    test("code fences are tokenized with the language of their info string", () => {
+        assert.strictEqual(TestBrackets.parseAndDescribe("markdown", "Text (a\n\n```ts\nf([1]) // )\n```\n"),
+            "(3:1 [3:2 ]3:2 )3:1");
+        assert.strictEqual(TestBrackets.parseAndDescribe("markdown", "- a\n  ~~~ {.python}\n  f([1]) # )\n  ~~~\n"),
+            "(2:3 [2:4 ]2:4 )2:3");
+    });
+
+    test("brackets of a code block don't nest with the brackets around it", () => {
+        assert.strictEqual(TestBrackets.parseAndDescribe("markdown", "[a](b)\n```js\n)\n```\n"),
+            "[0:0 ]0:0 (0:3 )0:3 )?");
+        assert.strictEqual(TestBrackets.parseAndDescribe("markdown", "```py\nf(\n```\n\n```js\n)\n```\n"), "(? )?");
+    });
+
+    test("code blocks without a language use markdownCodeLanguage", () => {
+        const text = "```\nf([1])\n```\n\n    g(\n";
+        assert.strictEqual(TestBrackets.parseAndDescribe("markdown", text), "");
+        assert.strictEqual(TestBrackets.parseAndDescribe("markdown", text,
+            new TestConfiguration({ markdownCodeLanguage: "javascript" })), "(1:1 [1:2 ]1:2 )1:1 (?");
+    });
+});
@@ -0,0 +1,29 @@
+import * as assert from "assert";
+import OverrideConfiguration from "../src/core/overrideConfiguration";
+import TestConfiguration from "./testConfiguration";
+
+suite("OverrideConfiguration", () => {
+    const configuration = new TestConfiguration({
+        colorMode: "Consecutive",
+        languageOverrides: {
+            "**/*.scm": { colorMode: "Independent", forceUniqueOpeningColor: true },
+            "**/test/*.scm": { forceUniqueOpeningColor: false },
+            "scheme": { colorMode: "Consecutive", forceIterationColorCycle: true },
+        },
+    });
+
+    test("globs replace the settings of the language", () => {
+        const overrides = new OverrideConfiguration(configuration, "scheme", "/src/test/a.scm");
+        assert.deepStrictEqual(overrides.keys, ["scheme", "**/*.scm", "**/test/*.scm"]);
+        assert.strictEqual(overrides.get("colorMode"), "Independent");
+        assert.strictEqual(overrides.get("forceIterationColorCycle"), true);
+        assert.strictEqual(overrides.get("forceUniqueOpeningColor"), false);
+    });
+
+    test("settings without an override are those of the configuration", () => {
+        const overrides = new OverrideConfiguration(configuration, "lisp", "/src/a.lisp");
+        assert.deepStrictEqual(overrides.keys, []);
+        assert.strictEqual(overrides.get("colorMode"), "Consecutive");
+        assert.strictEqual(overrides.get("forceIterationColorCycle"), false);
+    });
+});
@@ -0,0 +1,31 @@
+import * as assert from "assert";
+import TestBrackets from "./testBrackets";
+import TestConfiguration from "./testConfiguration";
+
+suite("Prism token types", () => {
+    const punctuationOnly = new TestConfiguration({ prismTokenTypes: { "*": ["punctuation"] } });
+
+    test("the default token types of a language are scanned besides punctuation", () => {
+        assert.strictEqual(TestBrackets.parseAndDescribe("html", "<a [b]=\"c\" (d)=\"e\"></a>"),
+            "[0:3 ]0:3 (0:11 )0:11");
+        assert.strictEqual(TestBrackets.parseAndDescribe("html", "<a [b]=\"c\"></a>", punctuationOnly), "");
+        assert.strictEqual(TestBrackets.parseAndDescribe("powershell", "[System.Math]::Round(1)"),
+            "[0:0 ]0:0 (0:20 )0:20");
+        assert.strictEqual(TestBrackets.parseAndDescribe("powershell", "[System.Math]::Round(1)", punctuationOnly),
+            "(0:20 )0:20");
+    });
+
+    test("types of \"*\" apply to all languages", () => {
+        const noTypes = new TestConfiguration({ prismTokenTypes: { "*": [] } });
+        assert.strictEqual(TestBrackets.parseAndDescribe("javascript", "f([1])", noTypes), "");
+    });
+
+    test("a type with indexes only scans these elements of its nested tokens", () => {
+        assert.strictEqual(TestBrackets.parseAndDescribe("markdown", "[a](b \"(\") (c)"), "[0:0 ]0:0 (0:3 )0:3");
+
+        const firstElement = new TestConfiguration({
+            prismTokenTypes: { "*": ["punctuation"], "markdown": [{ indexes: [0], type: "url" }] },
+        });
+        assert.strictEqual(TestBrackets.parseAndDescribe("markdown", "[a](b \"(\")", firstElement), "[0:0 ]0:0 (?");
+    });
+});
@@ -0,0 +1,63 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import BracketChecker from "../src/cli/bracketChecker";
+import BracketProblem from "../src/cli/bracketProblem";
+import JsonConfiguration from "../src/cli/jsonConfiguration";
+import ProblemFormatter from "../src/cli/problemFormatter";
+
+suite("ProblemFormatter", () => {
+    const file = path.join(os.tmpdir(), "bracket-pair-check-test.js");
+    let problems: BracketProblem[] = [];
+
+    suiteSetup(() => {
+        fs.writeFileSync(file, "f(a, [b)];\n// (\n}\n");
+        problems = new BracketChecker(new JsonConfiguration()).checkFile(file) || [];
+        fs.unlinkSync(file);
+    });
+
+    test("text has a line per problem with one based lines and columns", () => {
+        const expected = [
+            file + ":1:8: ')' does not match '[' at 1:6 (mismatched-bracket)",
+            file + ":1:9: ']' does not match '(' at 1:2 (mismatched-bracket)",
+            file + ":3:1: '}' has no open bracket (unmatched-bracket)",
+        ].join("\n");
+        assert.strictEqual(ProblemFormatter.format(problems, "text"), expected);
+    });
+
+    test("json is an array of problems with their start and end", () => {
+        const json = JSON.parse(ProblemFormatter.format(problems, "json"));
+        assert.strictEqual(json.length, 3);
+        assert.deepStrictEqual(json[2], {
+            column: 1,
+            endColumn: 2,
+            endLine: 3,
+            file,
+            line: 3,
+            message: "'}' has no open bracket",
+            rule: "unmatched-bracket",
+        });
+    });
+
+    test("sarif has a result per problem and the rules of the checker", () => {
+        const sarif = JSON.parse(ProblemFormatter.format(problems, "sarif"));
+        assert.strictEqual(sarif.version, "2.1.0");
+
+        const run = sarif.runs[0];
+        assert.deepStrictEqual(run.tool.driver.rules.map((rule: { id: string }) => rule.id),
+            [BracketChecker.unmatchedRuleID, BracketChecker.mismatchedRuleID]);
+        assert.deepStrictEqual(run.results.map((result: { ruleId: string }) => result.ruleId),
+            ["mismatched-bracket", "mismatched-bracket", "unmatched-bracket"]);
+
+        const location = run.results[0].locations[0].physicalLocation;
+        assert.strictEqual(location.artifactLocation.uri, file.split(path.sep).join("/"));
+        assert.deepStrictEqual(location.region, { endColumn: 9, endLine: 1, startColumn: 8, startLine: 1 });
+    });
+
+    test("no problems are an empty result in every format", () => {
+        assert.strictEqual(ProblemFormatter.format([], "text"), "");
+        assert.deepStrictEqual(JSON.parse(ProblemFormatter.format([], "json")), []);
+        assert.deepStrictEqual(JSON.parse(ProblemFormatter.format([], "sarif")).runs[0].results, []);
+    });
+});
@@ -0,0 +1,44 @@
+import * as assert from "assert";
+import * as Prism from "prismjs";
+import PrismLanguages from "../src/core/prismLanguages";
+import TestBrackets from "./testBrackets";
+import TestConfiguration from "./testConfiguration";
+
+suite("RegexLanguage", () => {
+    test("languages Prism does not support use the default delimiters", () => {
+        assert.deepStrictEqual(PrismLanguages.getPrismLanguageIDs("mydsl", new TestConfiguration()), ["regex-mydsl"]);
+        assert.strictEqual(TestBrackets.parseAndDescribe("mydsl", "f(a, \"(\") # ]\n/* { */ [x]"),
+            "(0:1 )0:1 [1:8 ]1:8");
+    });
+
+    test("delimiters of a language replace Prism, and a null default leaves other languages alone", () => {
+        const configuration = new TestConfiguration({
+            regexLanguages: { "*": null, "sql": { lineComments: ["--"], strings: [["'", "'", ""]] } },
+        });
+        assert.strictEqual(TestBrackets.parseAndDescribe("sql", "f('(', x) -- )\n# (", configuration),
+            "(0:1 )0:1 (?");
+        assert.deepStrictEqual(PrismLanguages.getPrismLanguageIDs("mydsl", configuration), ["mydsl"]);
+    });
+
+    test("only the keywords of keyword pairs are keyword brackets", () => {
+        const configuration = new TestConfiguration({
+            consecutivePairColors: ["()", ["begin", "end"], ["Gold", "Orchid"], "Red"],
+        });
+        assert.strictEqual(TestBrackets.parseAndDescribe("mydsl", "begin f(endless) end\n# end", configuration),
+            "begin0:0 (0:7 )0:7 end0:0");
+
+        const grammar = PrismLanguages.getGrammar("regex-mydsl", ["begin"]) as Prism.LanguageDefinition;
+        const tokens = Prism.tokenize("begin x", grammar);
+        assert.deepStrictEqual(tokens.map((e) => typeof e === "string" ? e : e.type), ["keyword", " x"]);
+        assert.strictEqual(Object.keys(PrismLanguages.getGrammar("regex-mydsl", []) as {}).indexOf("keyword"), -1);
+    });
+
+    test("grammars are not added to Prism", () => {
+        PrismLanguages.getPrismLanguageIDs("otherdsl", new TestConfiguration());
+        assert.strictEqual(Prism.languages["regex-otherdsl"], undefined);
+        assert.ok(PrismLanguages.isRegexLanguage("regex-otherdsl"));
+
+        PrismLanguages.clearRegexLanguages();
+        assert.ok(!PrismLanguages.isRegexLanguage("regex-otherdsl"));
+    });
+});
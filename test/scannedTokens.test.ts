@@ -0,0 +1,32 @@
+import * as assert from "assert";
+import ISettingObject from "../src/core/ISettingObject";
+import TestBrackets from "./testBrackets";
+import TestConfiguration from "./testConfiguration";
+
+suite("Scanned tokens", () => {
+    const parse = (text: string, settings: ISettingObject) => TestBrackets.parse("javascript", text,
+        new TestConfiguration(Object.assign({ consecutivePairColors: ["()", "[]", ["Gold", "Orchid"], "Red"] },
+            settings)));
+
+    test("brackets in comments are only colored if comments are scanned", () => {
+        const text = "f(a, /* g(b[0] */ c)";
+        assert.strictEqual(TestBrackets.describeColors(parse(text, {})), "0:1 Gold, 0:19 Gold");
+        assert.strictEqual(TestBrackets.describeColors(parse(text, { scannedTokens: { javascript: ["comment"] } })),
+            "0:1 Gold, 0:9 Gold, 0:11 Orchid, 0:13 Orchid, 0:19 Gold");
+    });
+
+    test("each token nests on its own, its orphans don't break the code around it", () => {
+        const analyzer = parse("x = \"(a)\" + '[' + f(/([a])/)", { scannedTokens: { "*": ["string", "regex"] } });
+        assert.strictEqual(TestBrackets.describeColors(analyzer),
+            "0:5 Gold, 0:7 Gold, 0:13 Gold, 0:19 Gold, 0:21 Gold, 0:22 Orchid, 0:24 Orchid, 0:25 Gold, 0:27 Gold");
+        assert.strictEqual(TestBrackets.describe(analyzer), "(0:19 )0:19");
+    });
+
+    test("orphans in scanned tokens are only reported with scannedTokenOrphans", () => {
+        const text = "f(a, /* g(b[0] */ c)";
+        const scannedTokens = { javascript: ["comment"] };
+        assert.strictEqual(TestBrackets.describe(parse(text, { scannedTokens })), "(0:1 )0:1");
+        assert.strictEqual(TestBrackets.describe(parse(text, { scannedTokenOrphans: true, scannedTokens })),
+            "(0:1 (? )0:1");
+    });
+});
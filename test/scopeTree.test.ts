@@ -0,0 +1,82 @@
+import * as assert from "assert";
+import Bracket from "../src/core/bracket";
+import Position from "../src/core/position";
+import Range from "../src/core/range";
+import Scope from "../src/core/scope";
+import ScopeTree from "../src/core/scopeTree";
+
+suite("ScopeTree", () => {
+    // A scope of one line, from the open bracket at one character to the close bracket at another
+    const createScope = (open: number, close: number) => new Scope(
+        new Range(new Position(0, open), new Position(0, close + 1)), "Gold",
+        new Bracket("(", new Range(new Position(0, open), new Position(0, open + 1)), 0),
+        new Bracket(")", new Range(new Position(0, close), new Position(0, close + 1)), 0));
+
+    // a(b[c]d)e{f}
+    const outer = createScope(1, 7);
+    const inner = createScope(3, 5);
+    const last = createScope(9, 11);
+    const tree = new ScopeTree();
+    [last, outer, inner].forEach((scope) => tree.add(scope));
+
+    test("getScope returns the innermost scope which contains the position", () => {
+        assert.strictEqual(tree.getScope(new Position(0, 4)), inner);
+        assert.strictEqual(tree.getScope(new Position(0, 3)), outer);
+        assert.strictEqual(tree.getScope(new Position(0, 6)), outer);
+        assert.strictEqual(tree.getScope(new Position(0, 10)), last);
+        assert.strictEqual(tree.getScope(new Position(0, 8)), undefined);
+        assert.strictEqual(tree.getScope(new Position(1, 0)), undefined);
+    });
+
+    test("getScopeBefore and getScopeAfter return the scopes which start before and after the position", () => {
+        assert.strictEqual(tree.getScopeBefore(new Position(0, 4)), outer);
+        assert.strictEqual(tree.getScopeBefore(new Position(0, 5)), inner);
+        assert.strictEqual(tree.getScopeBefore(new Position(0, 2)), undefined);
+        assert.strictEqual(tree.getScopeAfter(new Position(0, 4)), inner);
+        assert.strictEqual(tree.getScopeAfter(new Position(0, 8)), last);
+        assert.strictEqual(tree.getScopeAfter(new Position(0, 11)), undefined);
+    });
+
+    test("queries match a search of all scopes after adding and removing scopes", () => {
+        let seed = 1;
+        const random = (max: number) => {
+            seed = (seed * 1103515245 + 12345) % 2147483648;
+            return seed % max;
+        };
+
+        const randomTree = new ScopeTree();
+        let scopes: Scope[] = [];
+        for (let step = 0; step < 2000; step++) {
+            if (scopes.length > 0 && random(3) === 0) {
+                const scope = scopes[random(scopes.length)];
+                randomTree.remove(scope);
+                scopes = scopes.filter((e) => e !== scope);
+            }
+            else {
+                const open = random(500);
+                const scope = createScope(open, open + 1 + random(50));
+                randomTree.add(scope);
+                scopes.push(scope);
+            }
+
+            const position = new Position(0, random(560));
+            const containing = scopes.filter((e) => e.range.contains(position));
+            // Innermost is the scope which starts last, of scopes with the same start the one which ends first
+            const expected = containing.reduce<Scope | undefined>((innermost, e) => innermost === undefined ||
+                e.range.start.isAfter(innermost.range.start) || (e.range.start.isEqual(innermost.range.start) &&
+                e.range.end.isBefore(innermost.range.end)) ? e : innermost, undefined);
+            const actual = randomTree.getScope(position);
+            assert.deepStrictEqual(actual && actual.range, expected && expected.range, "step " + step);
+
+            const before = scopes.filter((e) => e.range.start.isBefore(position))
+                .reduce((max, e) => Math.max(max, e.range.start.character), -1);
+            const scopeBefore = randomTree.getScopeBefore(position);
+            assert.strictEqual(scopeBefore ? scopeBefore.range.start.character : -1, before, "step " + step);
+
+            const after = scopes.filter((e) => e.range.start.isAfterOrEqual(position))
+                .reduce((min, e) => Math.min(min, e.range.start.character), Infinity);
+            const scopeAfter = randomTree.getScopeAfter(position);
+            assert.strictEqual(scopeAfter ? scopeAfter.range.start.character : Infinity, after, "step " + step);
+        }
+    });
+});
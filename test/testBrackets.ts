@@ -0,0 +1,54 @@
+import AnalyzerSettings from "../src/core/analyzerSettings";
+import BracketAnalyzer from "../src/core/bracketAnalyzer";
+import IConfiguration from "../src/core/IConfiguration";
+import PrismLanguages from "../src/core/prismLanguages";
+import Range from "../src/core/range";
+import TestConfiguration from "./testConfiguration";
+
+// Brackets which a text of a language is parsed into, written in the order of the text, e.g. "( [ ] )! }?"
+export default class TestBrackets {
+    // Brackets of a scope are followed by the line and character of their scope, e.g. "(0:1 )0:1",
+    // orphans by "?" and brackets of mismatched scopes by "!"
+    public static describe(analyzer: BracketAnalyzer): string {
+        const mismatches = new Set(analyzer.getMismatches());
+        const brackets: Array<{ range: Range, text: string }> = [];
+
+        analyzer.getScopes().forEach((scope) => {
+            const suffix = mismatches.has(scope) ? "!" : scope.open.range.start.line + ":" +
+                scope.open.range.start.character;
+            brackets.push({ range: scope.open.range, text: scope.open.character + suffix });
+            brackets.push({ range: scope.close.range, text: scope.close.character + suffix });
+        });
+        analyzer.getOrphans().forEach((orphan) => brackets.push({ range: orphan.range, text: orphan.character + "?" }));
+
+        return brackets.sort((a, b) => a.range.start.compareTo(b.range.start)).map((e) => e.text).join(" ");
+    }
+
+    // Colored brackets in the order of the text, written as their line, character and color, e.g. "0:1 Gold"
+    public static describeColors(analyzer: BracketAnalyzer): string {
+        const brackets: Array<{ range: Range, text: string }> = [];
+        analyzer.getColorRanges().forEach((ranges, color) => ranges.forEach((range) =>
+            brackets.push({ range, text: range.start.line + ":" + range.start.character + " " + color })));
+
+        return brackets.sort((a, b) => a.range.start.compareTo(b.range.start)).map((e) => e.text).join(", ");
+    }
+
+    // The text is parsed with the Prism languages which the language id is mapped to
+    public static parse(
+        languageID: string, text: string, configuration: IConfiguration = new TestConfiguration()): BracketAnalyzer {
+        const languages = PrismLanguages.getPrismLanguageIDs(languageID, configuration);
+        const embeddedLanguages = languages.slice(1).filter((e) => PrismLanguages.isSupported(e));
+        const settings = new AnalyzerSettings(languages[0], configuration, embeddedLanguages);
+        PrismLanguages.loadLanguageOnce(languages[0]);
+        embeddedLanguages.forEach((e) => PrismLanguages.loadLanguageOnce(e));
+
+        const analyzer = new BracketAnalyzer(settings);
+        analyzer.update(text);
+        return analyzer;
+    }
+
+    public static parseAndDescribe(
+        languageID: string, text: string, configuration: IConfiguration = new TestConfiguration()): string {
+        return this.describe(this.parse(languageID, text, configuration));
+    }
+}
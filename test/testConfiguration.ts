@@ -0,0 +1,18 @@
+import JsonConfiguration from "../src/cli/jsonConfiguration";
+import IConfiguration from "../src/core/IConfiguration";
+import ISettingObject from "../src/core/ISettingObject";
+
+// The default settings of the extension, with the settings of a test replacing some of them
+export default class TestConfiguration implements IConfiguration {
+    private readonly defaults = new JsonConfiguration();
+    private readonly settings: ISettingObject;
+
+    constructor(settings: ISettingObject = {}) {
+        this.settings = settings;
+    }
+
+    public get<T>(section: string): T | undefined {
+        return Object.prototype.hasOwnProperty.call(this.settings, section) ?
+            this.settings[section] as T | undefined : this.defaults.get<T>(section);
+    }
+}
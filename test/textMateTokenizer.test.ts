@@ -0,0 +1,59 @@
+import * as assert from "assert";
+import * as fs from "fs";
+import * as path from "path";
+import * as oniguruma from "vscode-oniguruma";
+import { IGrammar, parseRawGrammar, Registry } from "vscode-textmate";
+import AnalyzerSettings from "../src/core/analyzerSettings";
+import BracketAnalyzer from "../src/core/bracketAnalyzer";
+import TextMateTokenizer from "../src/core/textMateTokenizer";
+import TestBrackets from "./testBrackets";
+import TestConfiguration from "./testConfiguration";
+
+suite("TextMateTokenizer", () => {
+    // Scopes like those of real grammars, <> of type parameters are only in a meta scope and {} in no scope
+    const rawGrammar = {
+        patterns: [
+            { match: "[()]", name: "meta.brace.round.test" },
+            { match: "[\\[\\]]", name: "punctuation.section.brackets.test" },
+            { begin: "<", end: ">", name: "meta.type.parameters.test" },
+            { match: "\"[^\"]*\"", name: "string.quoted.double.test" },
+        ],
+        scopeName: "source.test",
+    };
+    let grammar: IGrammar | null = null;
+
+    suiteSetup(() => {
+        const wasm = fs.readFileSync(path.join(path.dirname(require.resolve("vscode-oniguruma")), "onig.wasm"));
+        const registry = new Registry({
+            loadGrammar: () => Promise.resolve(parseRawGrammar(JSON.stringify(rawGrammar), "test.json")),
+            onigLib: oniguruma.loadWASM(wasm.buffer.slice(wasm.byteOffset, wasm.byteOffset + wasm.byteLength))
+                .then(() => ({
+                    createOnigScanner: (patterns: string[]) => new oniguruma.OnigScanner(patterns),
+                    createOnigString: (text: string) => new oniguruma.OnigString(text),
+                })),
+        });
+        return registry.loadGrammar("source.test").then((e) => { grammar = e; });
+    });
+
+    const parseAndDescribe = (text: string) => {
+        if (grammar === null) {
+            throw new Error("source.test is not loaded");
+        }
+
+        const configuration = new TestConfiguration({
+            consecutivePairColors: ["()", "[]", "{}", "<>", ["Gold", "Orchid"], "Red"],
+        });
+        const settings = new AnalyzerSettings("test", configuration, []);
+        const analyzer = new BracketAnalyzer(settings, new TextMateTokenizer(grammar, settings));
+        analyzer.update(text);
+        return TestBrackets.describe(analyzer);
+    };
+
+    test("brackets are punctuation or braces", () => {
+        assert.strictEqual(parseAndDescribe("f(a[0])"), "(0:1 [0:3 ]0:3 )0:1");
+    });
+
+    test("brackets in meta scopes, strings or no scope are skipped", () => {
+        assert.strictEqual(parseAndDescribe("{ List<T> (\")\") }"), "(0:10 )0:10");
+    });
+});